@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+import { createFastifyHook, fastifySanitizeRequest } from '../src/adapters/fastify';
+import { koaSanitizeRequest } from '../src/adapters/koa';
+import { withSanitizedRequest } from '../src/adapters/nextjs';
+import { createIncomingMessageSanitizer, sanitizeIncomingMessage } from '../src/adapters/node';
+import { sanitizeRequestLike } from '../src/utils/requestSanitizer';
+import { SanitizationRejectedError } from '../src/utils/sanitizer';
+
+const XSS = '<script>alert(1)</script>Hello';
+
+// Declines every job, so strings are still purified inline, but shows the async core ran
+const createDecliningPool = () => ({ threshold: 1, purify: jest.fn(() => undefined), close: jest.fn() });
+
+describe('sanitizeRequestLike', () => {
+  it('returns sanitized values and metadata without touching the request', () => {
+    const req = { method: 'POST', url: '/posts?x=1', body: { title: XSS } };
+
+    const outcome = sanitizeRequestLike(req);
+
+    expect(outcome.values.body).toEqual({ title: 'Hello' });
+    expect(outcome.metadata).toMatchObject({ sanitized: true, fieldsModified: ['body.title'], mode: 'sanitize' });
+    expect(outcome.error).toBeUndefined();
+    expect(req.body.title).toBe(XSS);
+  });
+
+  it('derives the path from the url for skipPaths', () => {
+    const outcome = sanitizeRequestLike({ url: '/health?full=1', body: { title: XSS } }, { skipPaths: ['/health'] });
+
+    expect(outcome).toEqual({ skipped: true, values: {} });
+  });
+
+  it('returns the rejection error in reject mode', () => {
+    const onError = jest.fn();
+    const req = { path: '/', body: { title: XSS } };
+
+    const outcome = sanitizeRequestLike(req, { mode: 'reject', onError });
+
+    expect(outcome.values).toEqual({});
+    expect(outcome.error).toBeInstanceOf(SanitizationRejectedError);
+    expect(onError).toHaveBeenCalledWith(outcome.error, req);
+  });
+
+  it('prefixes dropped keys and rejects them in reject mode', () => {
+    const req = { path: '/', body: JSON.parse('{"user":{"__proto__":{"isAdmin":true}}}') };
+
+    expect(sanitizeRequestLike(req).metadata?.droppedKeys).toEqual([
+      { field: 'body.user.__proto__', key: '__proto__', reason: 'dangerous' },
+    ]);
+    expect((sanitizeRequestLike(req, { mode: 'reject' }).error as SanitizationRejectedError).fields)
+      .toEqual(['body.user.__proto__']);
+  });
+});
+
+describe('Fastify adapter', () => {
+  it('registers a preValidation hook that sanitizes configured targets', () => {
+    const addHook = jest.fn();
+    const done = jest.fn();
+
+    fastifySanitizeRequest({ addHook }, { targets: ['body', 'query'] }, done);
+    const [name, hook] = addHook.mock.calls[0];
+    const request: any = { method: 'POST', url: '/posts?q=x', body: { title: XSS }, query: { q: XSS } };
+    const hookDone = jest.fn();
+    hook(request, {}, hookDone);
+
+    expect(name).toBe('preValidation');
+    expect(done).toHaveBeenCalled();
+    expect(request.body).toEqual({ title: 'Hello' });
+    expect(request.query).toEqual({ q: 'Hello' });
+    expect(request._sanitization.fieldsModified).toEqual(['body.title', 'query.q']);
+    expect(hookDone).toHaveBeenCalledWith(undefined);
+  });
+
+  it('uses the worker pool when given one', async () => {
+    const workerPool = createDecliningPool();
+    const request: any = { method: 'POST', url: '/posts', body: { title: XSS } };
+
+    const error = await new Promise(resolve => createFastifyHook({ workerPool })(request, {}, resolve));
+
+    expect(error).toBeUndefined();
+    expect(request.body).toEqual({ title: 'Hello' });
+    expect(workerPool.purify).toHaveBeenCalledWith(XSS, expect.any(Object));
+  });
+
+  it('skips plugin encapsulation', () => {
+    expect((fastifySanitizeRequest as any)[Symbol.for('skip-override')]).toBe(true);
+  });
+
+  it('passes rejection errors to done', () => {
+    const done = jest.fn();
+    createFastifyHook({ mode: 'reject' })({ url: '/', body: { title: XSS } }, {}, done);
+
+    expect(done).toHaveBeenCalledWith(expect.any(SanitizationRejectedError));
+  });
+});
+
+describe('Koa adapter', () => {
+  const createContext = (body: unknown): any => ({
+    method: 'POST',
+    path: '/posts',
+    url: '/posts',
+    headers: {},
+    query: {},
+    request: { body, headers: {} },
+    state: {},
+  });
+
+  it('sanitizes ctx.request.body and exposes metadata on ctx.state', async () => {
+    const ctx = createContext({ title: XSS });
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    await koaSanitizeRequest()(ctx, next);
+
+    expect(ctx.request.body).toEqual({ title: 'Hello' });
+    expect(ctx.state.sanitization.fieldsModified).toEqual(['body.title']);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('uses the worker pool when given one', async () => {
+    const workerPool = createDecliningPool();
+    const ctx = createContext({ title: XSS });
+
+    await koaSanitizeRequest({ workerPool })(ctx, jest.fn().mockResolvedValue(undefined));
+
+    expect(ctx.request.body).toEqual({ title: 'Hello' });
+    expect(workerPool.purify).toHaveBeenCalledWith(XSS, expect.any(Object));
+  });
+
+  it('throws rejection errors without calling next', async () => {
+    const next = jest.fn();
+
+    await expect(koaSanitizeRequest({ mode: 'reject' })(createContext({ title: XSS }), next))
+      .rejects.toBeInstanceOf(SanitizationRejectedError);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('Next.js adapter', () => {
+  const createRequest = (body: unknown) => new Request(`http://localhost/api/posts?q=${encodeURIComponent(XSS)}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  it('passes sanitized body, query and params to the handler', async () => {
+    const handler = jest.fn().mockResolvedValue(new Response('ok'));
+    const route = withSanitizedRequest(handler, { targets: ['body', 'query', 'params'] });
+    const req = createRequest({ title: XSS });
+
+    await route(req, { params: Promise.resolve({ slug: XSS }) });
+
+    const { sanitized } = handler.mock.calls[0][1];
+    expect(handler.mock.calls[0][0]).toBe(req);
+    expect(sanitized.body).toEqual({ title: 'Hello' });
+    expect(sanitized.query).toEqual({ q: 'Hello' });
+    expect(sanitized.params).toEqual({ slug: 'Hello' });
+    expect(sanitized.metadata.fieldsModified).toEqual(['body.title', 'query.q', 'params.slug']);
+    expect(await req.json()).toEqual({ title: XSS });
+  });
+
+  it('uses the worker pool when given one', async () => {
+    const workerPool = createDecliningPool();
+    const handler = jest.fn().mockResolvedValue(new Response('ok'));
+
+    await withSanitizedRequest(handler, { workerPool })(createRequest({ title: XSS }));
+
+    expect(handler.mock.calls[0][1].sanitized.body).toEqual({ title: 'Hello' });
+    expect(workerPool.purify).toHaveBeenCalledWith(XSS, expect.any(Object));
+  });
+
+  it('responds with 400 in reject mode', async () => {
+    const handler = jest.fn();
+    const route = withSanitizedRequest(handler, { mode: 'reject' });
+
+    const response = await route(createRequest({ title: XSS }));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'SanitizationRejectedError', fields: ['body.title'] });
+  });
+});
+
+describe('Node http adapter', () => {
+  it('parses the query from the url and writes sanitized values back', () => {
+    const req: any = { method: 'GET', url: '/search?q=%3Cscript%3Ex%3C%2Fscript%3Eok', headers: {} };
+
+    const outcome = sanitizeIncomingMessage(req, { targets: ['query'] });
+
+    expect(outcome.error).toBeUndefined();
+    expect(req.query).toEqual({ q: 'ok' });
+    expect(req._sanitization.fieldsModified).toEqual(['query.q']);
+  });
+
+  it('reuses the compiled options across requests', () => {
+    const sanitize = createIncomingMessageSanitizer({ targets: ['body'], mode: 'reject' });
+    const clean: any = { method: 'POST', url: '/posts', headers: {}, body: { title: 'Hello' } };
+    const dirty: any = { method: 'POST', url: '/posts', headers: {}, body: { title: XSS } };
+
+    expect(sanitize(clean).error).toBeUndefined();
+    expect(sanitize(dirty).error?.name).toBe('SanitizationRejectedError');
+    expect(dirty._sanitization.fieldsModified).toEqual(['body.title']);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import { Readable } from 'stream';
+import {
+  createSanitizer,
+  sanitizeRequestData,
+  sanitizeRequestDataAsync,
+  SanitizationAbortedError,
+  SanitizationError,
+  SanitizationLimitError
+} from '../src/utils/sanitizer';
+import { sanitizeJsonStream, splitJsonArray, splitNdjson } from '../src/utils/jsonStream';
+import { SanitizationConfig } from '../src/types/sanitization';
+
+const config: SanitizationConfig = {
+  allowedTags: ['b'],
+  allowedAttributes: {},
+  maxStringLength: 20,
+};
+
+// Parsed from JSON so that '__proto__' is an own key, as it is in request bodies
+const parseRecords = () => JSON.parse(`[
+  { "title": "<b>Hello</b><script>alert(1)</script>", "__proto__": "x", "tags": ["<i>a</i>", "b"] },
+  { "title": "plain", "nested": { "note": "${'x'.repeat(30)}" } },
+  "<img src=x onerror=alert(1)>"
+]`);
+
+const toChunks = (text: string, size: number) => {
+  const chunks: Buffer[] = [];
+  const bytes = Buffer.from(text);
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    chunks.push(bytes.subarray(offset, offset + size));
+  }
+  return Readable.from(chunks);
+};
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('sanitizeRequestDataAsync', () => {
+  it('returns the same result as the synchronous path', async () => {
+    const body = { items: parseRecords() };
+
+    await expect(sanitizeRequestDataAsync(body, config, { yieldEvery: 2 }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+  });
+
+  it('yields to the event loop while walking', async () => {
+    const body = { rows: Array.from({ length: 50 }, (_, index) => ({ name: `Row ${index}` })) };
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+
+    await sanitizeRequestDataAsync(body, config, { yieldEvery: 5 });
+    clearInterval(timer);
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('rejects when the signal aborts', async () => {
+    const controller = new AbortController();
+    const body = { rows: Array.from({ length: 100 }, (_, index) => `Row ${index}`) };
+    const promise = sanitizeRequestDataAsync(body, config, { yieldEvery: 10, signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'SanitizationAbortedError', reason: 'aborted' });
+  });
+
+  it('rejects when the timeout passes', async () => {
+    const body = { rows: Array.from({ length: 100 }, (_, index) => `Row ${index}`) };
+
+    const error = await sanitizeRequestDataAsync(body, config, { yieldEvery: 10, timeoutMs: -1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SanitizationAbortedError);
+    expect(error).toBeInstanceOf(SanitizationError);
+    expect(error.reason).toBe('timeout');
+  });
+
+  it('applies limits like the synchronous path', async () => {
+    await expect(sanitizeRequestDataAsync({ a: { b: { c: 1 } } }, { ...config, limits: { maxDepth: 2 } }))
+      .rejects.toBeInstanceOf(SanitizationLimitError);
+  });
+});
+
+describe('sanitizeJsonStream', () => {
+  it('sanitizes NDJSON records with the metadata of the whole array', async () => {
+    const input = parseRecords();
+    const ndjson = `${input.map((record: unknown) => JSON.stringify(record)).join('\n')}\n\n`;
+    const stream = sanitizeJsonStream(toChunks(ndjson, 7), config);
+
+    const sanitized = await collect(stream);
+    const { data, ...expected } = sanitizeRequestData(input, config);
+
+    expect(sanitized).toEqual(data);
+    expect(stream.getResult()).toEqual(expected);
+    expect(stream.getResult().fieldsModified).toContain('[0].title');
+    expect(stream.getResult().droppedKeys).toEqual([{ field: '[0].__proto__', key: '__proto__', reason: 'dangerous' }]);
+  });
+
+  it('sanitizes the elements of a JSON array stream', async () => {
+    const input = parseRecords();
+    const stream = sanitizeJsonStream(toChunks(JSON.stringify(input, null, 2), 5), config, { format: 'json-array' });
+
+    const sanitized = await collect(stream);
+    const { data, ...expected } = sanitizeRequestData(input, config);
+
+    expect(sanitized).toEqual(data);
+    expect(stream.getResult()).toEqual(expected);
+  });
+
+  it('applies limits to each record on its own', async () => {
+    const ndjson = ['"aaaa"', '"bbbb"', '"cccc"'].join('\n');
+    const stream = sanitizeJsonStream(toChunks(ndjson, 4), { ...config, limits: { maxTotalStringBytes: 5 } });
+
+    await expect(collect(stream)).resolves.toEqual(['aaaa', 'bbbb', 'cccc']);
+  });
+
+  it('reports invalid records with their index', async () => {
+    const stream = sanitizeJsonStream(toChunks('{"a":1}\n{"a":\n', 64), config);
+
+    await expect(collect(stream)).rejects.toMatchObject({ name: 'SanitizationError', field: '[1]' });
+  });
+
+  it('can be used from a compiled sanitizer', async () => {
+    const sanitizer = createSanitizer(config);
+    const stream = sanitizer.sanitizeStream(Readable.from([{ a: '<script>x</script>ok' }], { objectMode: true }));
+
+    await expect(collect(stream)).resolves.toEqual([{ a: 'ok' }]);
+    expect(stream.getResult().fieldsModified).toEqual(['[0].a']);
+  });
+});
+
+describe('JSON stream splitters', () => {
+  it('splits array elements across chunk boundaries', async () => {
+    const text = ' [ {"a": "x,]}\\"y"}, [1, [2]], "é", 3 ] ';
+
+    await expect(collect(splitJsonArray(toChunks(text, 3)))).resolves
+      .toEqual(['{"a": "x,]}\\"y"}', '[1, [2]]', '"é"', '3']);
+  });
+
+  it('handles empty arrays and rejects malformed ones', async () => {
+    await expect(collect(splitJsonArray(toChunks('[ ]', 1)))).resolves.toEqual([]);
+    await expect(collect(splitJsonArray(toChunks('{"a":1}', 4)))).rejects.toThrow("Unexpected '{' before the JSON array");
+    await expect(collect(splitJsonArray(toChunks('[1, 2', 4)))).rejects.toThrow('Unexpected end of the JSON array');
+    await expect(collect(splitJsonArray(toChunks('[1] 2', 4)))).rejects.toThrow("Unexpected '2' after the JSON array");
+  });
+
+  it('splits NDJSON lines, skipping blank ones', async () => {
+    await expect(collect(splitNdjson(toChunks('{"a":1}\r\n\n{"b":2}', 3)))).resolves.toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('fails records above maxRecordBytes before they are complete', async () => {
+    const endless = async function* () {
+      yield '[1, "';
+      for (;;) yield 'x'.repeat(100);
+    };
+
+    await expect(collect(splitJsonArray(endless(), 1000))).rejects.toMatchObject({
+      name: 'SanitizationLimitError',
+      path: '[1]',
+      limit: 'maxRecordBytes',
+    });
+    await expect(collect(splitNdjson(toChunks(`{"a":1}\n"${'é'.repeat(600)}"\n`, 64), 1000)))
+      .rejects.toThrow('Record [1] exceeds 1000 bytes');
+    await expect(collect(sanitizeJsonStream(toChunks(`"${'x'.repeat(2000)}"`, 64), config, { maxRecordBytes: 1000 })))
+      .rejects.toBeInstanceOf(SanitizationLimitError);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { execFileSync } from 'child_process';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+jest.setTimeout(60000);
+
+// Inside node_modules, so the bundles resolve their dependencies like an installed package would
+const buildDir = join(__dirname, '../node_modules/.cache/sanitize-request-build');
+
+// Runs an ES module that gets both builds of each entry as `builds`, and returns its output lines
+const runWithBuilds = (entry: string, body: string): string[] => {
+  const script = join(buildDir, `${entry}.run.mjs`);
+  writeFileSync(script, `
+import { createRequire } from 'module';
+const builds = [createRequire(import.meta.url)('./dist/${entry}.js'), await import('./dist/${entry}.mjs')];
+${body}
+`);
+  return execFileSync(process.execPath, [script], { cwd: buildDir, encoding: 'utf8', timeout: 60000 }).trim().split('\n');
+};
+
+beforeAll(() => {
+  const { tsup } = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf8'));
+  mkdirSync(buildDir, { recursive: true });
+  const configFile = join(buildDir, 'tsup.config.json');
+  // The package index is generated at release time, so the modules under test stand in for it
+  writeFileSync(configFile, JSON.stringify({
+    ...tsup,
+    entry: { ...tsup.entry, index: 'src/utils/workerPool.ts', loadPolicy: 'src/config/loadPolicy.ts' },
+    outDir: join(buildDir, 'dist'),
+    dts: false,
+    metafile: false,
+  }));
+  execFileSync(require.resolve('tsup/dist/cli-default.js'), ['--config', configFile], {
+    cwd: join(__dirname, '..'),
+    stdio: 'pipe',
+  });
+});
+
+afterAll(() => {
+  rmSync(buildDir, { recursive: true, force: true });
+});
+
+describe('built package', () => {
+  it('starts workers from the default script in the CommonJS and ESM builds', () => {
+    const output = runWithBuilds('index', `
+const policy = {
+  allowedTags: ['p'], allowedAttributes: {}, allowedStyles: {}, stripIgnoreTag: true, stripIgnoreTagBody: false,
+  allowEmptyTags: false, maxTagDepth: 10, urlPolicy: {}, linkPolicy: {}, format: 'html', preventClobbering: true,
+};
+for (const { createPurifyPool } of builds) {
+  const pool = createPurifyPool({ size: 1, threshold: 1 });
+  console.log((await pool.purify('<p>Hi</p><script>alert(1)</script>', policy)).output);
+  await pool.close();
+}
+`);
+
+    expect(output).toEqual(['<p>Hi</p>', '<p>Hi</p>']);
+  });
+
+  it('loads YAML policies in the CommonJS and ESM builds', () => {
+    writeFileSync(join(buildDir, 'policy.yaml'), 'defaultProfile: strict\n');
+
+    const output = runWithBuilds('loadPolicy', `
+for (const { loadPolicy } of builds) {
+  console.log(loadPolicy('policy.yaml').current.defaultProfile);
+}
+`);
+
+    expect(output).toEqual(['strict', 'strict']);
+  });
+});
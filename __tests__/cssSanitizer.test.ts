@@ -0,0 +1,108 @@
+import { sanitizeStyle, sanitizeStylesheet } from '../src/utils/cssSanitizer';
+import { sanitizeRequestData, sanitizeString } from '../src/utils/sanitizer';
+import { BLOG_CONFIG, SAFE_STYLES } from '../src/config/sanitizationConfigs';
+import { AllowedStyles } from '../src/types/sanitization';
+
+const allowedStyles: AllowedStyles = {
+  color: [/#[0-9a-f]{3,6}/i, 'red'],
+  'text-align': ['left', 'center'],
+  position: true,
+  background: true,
+  width: true,
+};
+
+describe('sanitizeStyle', () => {
+  it('keeps allowed declarations and reports the rest', () => {
+    expect(sanitizeStyle('COLOR: #FFF; text-align:center !important; font-size: 40px; color: blue', allowedStyles)).toEqual({
+      css: 'color: #FFF; text-align: center !important',
+      removed: [
+        { property: 'font-size', reason: 'property is not allowed' },
+        { property: 'color', reason: 'value is not allowed' },
+      ],
+    });
+  });
+
+  it('matches patterns against the whole value', () => {
+    expect(sanitizeStyle('color: #fff; color: #fff url(x)', { color: [/#[0-9a-f]+/] }).css).toBe('color: #fff');
+    expect(sanitizeStyle('margin: 1.5em auto', SAFE_STYLES).css).toBe('margin: 1.5em auto');
+    expect(sanitizeStyle('margin: 0 12px 5% .5rem', SAFE_STYLES).css).toBe('margin: 0 12px 5% .5rem');
+    expect(sanitizeStyle('margin-top: -2000px; margin-left: -1em; margin-right: 100px; margin-bottom: 10em', SAFE_STYLES).css)
+      .toBe('');
+  });
+
+  it('blocks url(), expression() and other functions that load or run something', () => {
+    expect(sanitizeStyle('background: url(https://evil.example/track.png)', allowedStyles).removed)
+      .toEqual([{ property: 'background', reason: 'url() is not allowed' }]);
+    expect(sanitizeStyle('width: expression(alert(1))', allowedStyles).removed)
+      .toEqual([{ property: 'width', reason: 'expression() is not allowed' }]);
+    expect(sanitizeStyle('background: -webkit-image-set("x.png" 1x)', allowedStyles).css).toBe('');
+    expect(sanitizeStyle('background: URL (x)', allowedStyles).css).toBe('');
+  });
+
+  it('sees through comments and escapes', () => {
+    expect(sanitizeStyle('width: exp/**/ression(alert(1))', allowedStyles).css).toBe('');
+    expect(sanitizeStyle('background: u\\72 l(x)', allowedStyles).css).toBe('');
+    expect(sanitizeStyle('background: "unterminated', allowedStyles).css).toBe('');
+  });
+
+  it('never allows fixed positioning', () => {
+    expect(sanitizeStyle('position: fixed; position: relative', allowedStyles)).toEqual({
+      css: 'position: relative',
+      removed: [{ property: 'position', reason: "position 'fixed' is not allowed" }],
+    });
+  });
+});
+
+describe('sanitizeStylesheet', () => {
+  it('keeps rules and media queries with allowed declarations', () => {
+    const css = 'p > span { color: red; font-size: 99px } @media (max-width: 600px) { p { text-align: left } }';
+
+    expect(sanitizeStylesheet(css, allowedStyles).css)
+      .toBe('p > span { color: red }\n@media (max-width: 600px) {\np { text-align: left }\n}');
+  });
+
+  it('removes @import and other at-rules', () => {
+    const { css, removed } = sanitizeStylesheet('@import url(evil.css); @font-face { src: url(x) } p { color: red }', allowedStyles);
+
+    expect(css).toBe('p { color: red }');
+    expect(removed).toEqual([
+      { property: '@import', reason: 'at-rule is not allowed' },
+      { property: '@font-face', reason: 'at-rule is not allowed' },
+    ]);
+  });
+});
+
+describe('style sanitization in HTML', () => {
+  const config = {
+    allowedTags: ['p', 'style'],
+    allowedAttributes: { p: ['style'] },
+    allowedStyles,
+  };
+
+  it('filters style attributes and removes empty ones', () => {
+    expect(sanitizeString('<p style="color: red; position: fixed; top: 0">a</p><p style="background: url(x)">b</p>', config).data)
+      .toBe('<p style="color: red">a</p><p>b</p>');
+  });
+
+  it('filters <style> blocks and cannot be broken out of', () => {
+    expect(sanitizeString('<style>@import "x.css"; p { color: red }</style>', config).data).toBe('<style>p { color: red }</style>');
+    expect(sanitizeString('<style>p { background: "</style><img src=x onerror=alert(1)>" }</style>', config).data)
+      .not.toContain('<img');
+  });
+
+  it('reports removed declarations', () => {
+    const result = sanitizeRequestData({ bio: '<p style="color: red; width: expression(alert(1))">hi</p>' }, config);
+
+    expect(result.data.bio).toBe('<p style="color: red">hi</p>');
+    expect(result.changes[0]).toMatchObject({
+      field: 'bio',
+      rules: ['style-removed'],
+      removedStyles: [{ property: 'width', reason: 'expression() is not allowed' }],
+    });
+  });
+
+  it('keeps safe inline styles in the blog profile', () => {
+    expect(sanitizeString('<p style="text-align: center; color: #333; margin: 0 auto; position: absolute">x</p>', BLOG_CONFIG).data)
+      .toBe('<p style="text-align: center; color: #333; margin: 0 auto">x</p>');
+  });
+});
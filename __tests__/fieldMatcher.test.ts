@@ -0,0 +1,47 @@
+import { createFieldMatcher, splitFieldPath } from '../src/utils/fieldMatcher';
+
+describe('fieldMatcher', () => {
+  it('splits dotted paths and array indexes into segments', () => {
+    expect(splitFieldPath('credentials[0].token')).toEqual(['credentials', '0', 'token']);
+    expect(splitFieldPath('user.profile.name')).toEqual(['user', 'profile', 'name']);
+  });
+
+  it('matches plain names against the leaf key at any depth', () => {
+    const isSensitive = createFieldMatcher(['password', 'token']);
+    expect(isSensitive('password')).toBe(true);
+    expect(isSensitive('user.password')).toBe(true);
+    expect(isSensitive('credentials[0].token')).toBe(true);
+    expect(isSensitive('password.hint')).toBe(false);
+  });
+
+  it('ignores case and separators', () => {
+    const isSensitive = createFieldMatcher(['apiKey', 'password']);
+    expect(isSensitive('API_KEY')).toBe(true);
+    expect(isSensitive('api-key')).toBe(true);
+    expect(isSensitive('user.Password')).toBe(true);
+  });
+
+  it('matches single-segment globs', () => {
+    const isSensitive = createFieldMatcher(['*.secretAnswer']);
+    expect(isSensitive('user.secretAnswer')).toBe(true);
+    expect(isSensitive('secretAnswer')).toBe(false);
+    expect(isSensitive('a.b.secretAnswer')).toBe(false);
+  });
+
+  it('matches multi-segment globs', () => {
+    const isSensitive = createFieldMatcher(['auth.**']);
+    expect(isSensitive('auth')).toBe(true);
+    expect(isSensitive('auth.provider')).toBe(true);
+    expect(isSensitive('auth.keys[1].value')).toBe(true);
+    expect(isSensitive('author.name')).toBe(false);
+  });
+
+  it('tests regular expressions against the raw path', () => {
+    const isSensitive = createFieldMatcher([/^cards\[\d+\]\.number$/, /ssn/gi]);
+    expect(isSensitive('cards[2].number')).toBe(true);
+    expect(isSensitive('cards[2].label')).toBe(false);
+    expect(isSensitive('user.SSN')).toBe(true);
+    // global regexes keep lastIndex between calls
+    expect(isSensitive('user.SSN')).toBe(true);
+  });
+});
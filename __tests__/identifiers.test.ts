@@ -0,0 +1,76 @@
+import { sanitizeRequestData, sanitizeString } from '../src/utils/sanitizer';
+import { SanitizationConfig } from '../src/types/sanitization';
+
+const config: SanitizationConfig = {
+  allowedTags: ['div', 'span', 'img', 'label', 'input', 'form'],
+  allowedAttributes: { '*': ['class', 'id', 'name', 'for'] },
+};
+
+describe('class allowlists', () => {
+  const classConfig: SanitizationConfig = {
+    ...config,
+    allowedClasses: { '*': ['note'], span: [/lang-[a-z]+/] },
+  };
+
+  it('keeps only allowed class names for each tag', () => {
+    expect(sanitizeString('<div class="note admin-panel lang-js"><span class="lang-js note js-hook">x</span></div>', classConfig).data)
+      .toBe('<div class="note"><span class="lang-js note">x</span></div>');
+  });
+
+  it('removes the attribute when no class is left', () => {
+    expect(sanitizeString('<div class="btn-danger">x</div>', classConfig).data).toBe('<div>x</div>');
+  });
+
+  it('keeps any class without an allowlist', () => {
+    expect(sanitizeString('<div class="anything goes">x</div>', config).data).toBe('<div class="anything goes">x</div>');
+  });
+});
+
+describe('id prefixing', () => {
+  const prefixConfig: SanitizationConfig = { ...config, idPrefix: 'user-content-' };
+
+  it('prefixes ids, names and references to ids', () => {
+    expect(sanitizeString('<label for="email">Email</label><input id="email" name="email">', prefixConfig).data)
+      .toBe('<label for="user-content-email">Email</label><input id="user-content-email" name="user-content-email">');
+  });
+
+  it('does not prefix twice', () => {
+    const once = sanitizeString('<div id="intro">x</div>', prefixConfig).data;
+
+    expect(sanitizeString(once, prefixConfig).data).toBe('<div id="user-content-intro">x</div>');
+  });
+
+  it('makes names that would clobber the DOM harmless', () => {
+    expect(sanitizeString('<img name="getElementById"><div id="cookie">x</div>', prefixConfig).data)
+      .toBe('<img name="user-content-getElementById"><div id="user-content-cookie">x</div>');
+  });
+});
+
+describe('DOM clobbering protection', () => {
+  it('removes ids and names that shadow document or form properties', () => {
+    expect(sanitizeString('<div id="__proto__">a</div><img name="getElementById"><div id="intro">b</div>', config).data)
+      .toBe('<div>a</div><img><div id="intro">b</div>');
+    expect(sanitizeString('<form><input name="action"></form>', config).data).toBe('<form><input></form>');
+  });
+
+  it('can be turned off', () => {
+    expect(sanitizeString('<img name="images">', { ...config, preventClobbering: false }).data).toBe('<img name="images">');
+  });
+});
+
+it('reports every changed value', () => {
+  const result = sanitizeRequestData(
+    { bio: '<div id="cookie" class="note evil">x</div><span id="intro">y</span>' },
+    { ...config, allowedClasses: { '*': ['note'] } }
+  );
+
+  expect(result.fieldsModified).toEqual(['bio']);
+  expect(result.changes[0]).toMatchObject({
+    rules: ['class-removed', 'clobbering-prevented'],
+    removedAttributes: [],
+    changedAttributes: [
+      { tag: 'div', attribute: 'class', from: 'note evil', to: 'note', reason: "class 'evil' not allowed" },
+      { tag: 'div', attribute: 'id', from: 'cookie', to: null, reason: "'cookie' would shadow a document or form property" },
+    ],
+  });
+});
@@ -0,0 +1,69 @@
+import { createLogger, fromPino, resetLogger, setLogger, setLogLevel } from '../src/utils/logger';
+import { sanitizeRequestData } from '../src/utils/sanitizer';
+
+const createTestLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+describe('logger', () => {
+  afterEach(() => {
+    resetLogger();
+    jest.restoreAllMocks();
+  });
+
+  it('suppresses debug messages by default', () => {
+    const consoleDebug = jest.spyOn(console, 'debug').mockImplementation(() => { });
+    sanitizeRequestData({ password: '<b>x</b>' }, {});
+    expect(consoleDebug).not.toHaveBeenCalled();
+  });
+
+  it('routes sanitizer events to the global logger', () => {
+    const logger = createTestLogger();
+    setLogger(logger);
+    setLogLevel('debug');
+
+    sanitizeRequestData({ user: { password: 'x' } }, {});
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Skipping sanitization for sensitive field: user.password',
+      { event: 'sensitive-field-skipped', field: 'user.password' }
+    );
+  });
+
+  it('picks up a global logger set after creation', () => {
+    const log = createLogger();
+    const logger = createTestLogger();
+    setLogger(logger);
+
+    log.info('hello', { event: 'test' });
+
+    expect(logger.info).toHaveBeenCalledWith('hello', { event: 'test' });
+  });
+
+  it('merges context into every event', () => {
+    const logger = createTestLogger();
+    const log = createLogger({ logger, context: { requestId: 'r1' } });
+
+    log.warn('careful', { event: 'test', field: 'a' });
+    log.error('plain');
+
+    expect(logger.warn).toHaveBeenCalledWith('careful', { requestId: 'r1', event: 'test', field: 'a' });
+    expect(logger.error).toHaveBeenCalledWith('plain', { requestId: 'r1' });
+  });
+
+  it('silences everything at the silent level', () => {
+    const logger = createTestLogger();
+    const log = createLogger({ logger, level: 'silent' });
+    log.error('nope');
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('adapts pino-style loggers', () => {
+    const pino = createTestLogger();
+    const logger = fromPino(pino);
+
+    logger.warn('message', { event: 'test' });
+    logger.info('bare');
+
+    expect(pino.warn).toHaveBeenCalledWith({ event: 'test' }, 'message');
+    expect(pino.info).toHaveBeenCalledWith({}, 'bare');
+  });
+});
@@ -0,0 +1,109 @@
+import { sanitizeRequestData, sanitizeString } from '../src/utils/sanitizer';
+import { COMMENT_CONFIG, getConfig, MARKDOWN_CONFIG } from '../src/config/sanitizationConfigs';
+
+const sanitizeMarkdown = (input: string) => sanitizeString(input, MARKDOWN_CONFIG).data;
+
+describe('markdown sanitization', () => {
+  it('is available as a profile', () => {
+    expect(getConfig('markdown')).toEqual(MARKDOWN_CONFIG);
+    expect(MARKDOWN_CONFIG.format).toBe('markdown');
+  });
+
+  it('leaves Markdown syntax alone', () => {
+    const input = '# Title\n\n> quoted & *emphasis*\n\n- a < b\n- [link](https://example.com "Title") and ![alt](/img.png)\n\n1 > 0\n';
+
+    expect(sanitizeMarkdown(input)).toBe(input);
+  });
+
+  it('keeps autolinks that an HTML profile would strip', () => {
+    const input = 'See <https://example.com/docs?a=1&b=2> or mail <team@example.com>';
+
+    expect(sanitizeMarkdown(input)).toBe(input);
+    expect(sanitizeString(input, COMMENT_CONFIG).data).not.toContain('<https://example.com/docs');
+  });
+
+  it('sanitizes raw HTML with the profile rules', () => {
+    expect(sanitizeMarkdown('Hi <b onclick="steal()">there</b> <img src=x onerror=alert(1)> **bold**'))
+      .toBe('Hi <b>there</b>  **bold**');
+    expect(sanitizeMarkdown('<a href="https://example.com">site</a>'))
+      .toBe('<a href="https://example.com" rel="nofollow ugc">site</a>');
+    expect(sanitizeMarkdown('Before\n\n<script>\nalert(1)\n</script>\n\nAfter <!-- note -->'))
+      .toBe('Before\n\n\n\nAfter ');
+    // Tags are sanitized one by one, so the content of a disallowed tag is kept
+    expect(sanitizeMarkdown('<span>kept</span>')).toBe('kept');
+  });
+
+  it('escapes text that a browser could read as a tag', () => {
+    expect(sanitizeMarkdown('x<y and <img src=x onerror=alert(1)//')).toBe('x&lt;y and &lt;img src=x onerror=alert(1)//');
+  });
+
+  it('empties link and image URLs blocked by the URL policy', () => {
+    expect(sanitizeMarkdown('[a](javascript:alert(1)) ![b](data:text/html,x "t")'))
+      .toBe('[a]() ![b]( "t")');
+    expect(sanitizeMarkdown('[a](<javascript:alert(1)>) [b](javascript\\:alert(1)) [c](javascript&#58;alert(1))'))
+      .toBe('[a]() [b]() [c]()');
+    expect(sanitizeMarkdown('[ref]: javascript:alert(1)\n[next]:\n  https://example.com'))
+      .toBe('[ref]: <>\n[next]:\n  https://example.com');
+    expect(sanitizeMarkdown('Go <javascript:alert(1)> now')).toBe('Go  now');
+  });
+
+  it('keeps code spans and fenced blocks exactly as written', () => {
+    const input = [
+      'Use `<script>alert(1)</script>` or ``[x](javascript:y)``.',
+      '',
+      '```html',
+      '<img src=x onerror=alert(1)>',
+      '[x](javascript:alert(1))',
+      '```',
+      '',
+      '~~~',
+      '<div onclick="x">',
+      '~~~',
+    ].join('\n');
+
+    expect(sanitizeMarkdown(input)).toBe(input);
+  });
+
+  it('does not treat markup a renderer would output as HTML as code', () => {
+    // Backticks inside HTML blocks are plain text
+    expect(sanitizeMarkdown('<div>\n`<img src=x onerror=alert(1)>`\n</div>')).toBe('\n``\n');
+    // An escaped backtick does not open a code span
+    expect(sanitizeMarkdown('\\`<img src=x onerror=alert(1)>`')).toBe('\\``');
+    // A fence inside a list item ends with the item
+    expect(sanitizeMarkdown('- a\n  ```\n- <img src=x onerror=alert(1)>\n  ```')).toBe('- a\n  ```\n- \n  ```');
+    // Table cells split at '|' even inside backticks
+    expect(sanitizeMarkdown('| `a | <img src=x onerror=alert(1)>` |')).toBe('| `a | ` |');
+    // An unclosed fence is not a code block
+    expect(sanitizeMarkdown('```\n<img src=x onerror=alert(1)>')).toBe('```\n');
+    // Links are read before code spans, so backticks in their titles and destinations do not open one
+    expect(sanitizeMarkdown('[a](x "`") <img src=x onerror=alert(1)> `')).toBe('[a](x "&#96;")  `');
+    expect(sanitizeMarkdown('[a](x`y) <img src=x onerror=alert(1)> `z)')).toBe('[a](x%60y)  `z)');
+    expect(sanitizeMarkdown('[a](x<y "`") <img src=x onerror=alert(1)> `')).toBe('[a](x%3Cy "&#96;")  `');
+    expect(sanitizeMarkdown('[a]: x "`"\n<b>b</b> <img src=x onerror=alert(1)> `')).toBe('[a]: x "&#96;"\n<b>b</b>  `');
+  });
+
+  it('reports changes like HTML sanitization', () => {
+    const result = sanitizeRequestData(
+      { comment: 'Hi <img src=x onerror=alert(1)> [a](javascript:alert(1))', code: '`<b>`' },
+      MARKDOWN_CONFIG
+    );
+
+    expect(result.data).toEqual({ comment: 'Hi  [a]()', code: '`<b>`' });
+    expect(result.fieldsModified).toEqual(['comment']);
+    expect(result.warnings).toContain("Blocked URL in field 'comment' (<a href>): protocol 'javascript:' is not allowed");
+    expect(result.changes[0]).toMatchObject({
+      field: 'comment',
+      rules: expect.arrayContaining(['tag-removed', 'url-blocked']),
+      removedTags: ['img'],
+    });
+  });
+
+  it('does not backtrack badly on unclosed tags', () => {
+    const input = `<a${' b="1"'.repeat(20000)}`;
+    const start = Date.now();
+
+    sanitizeString(input, { ...MARKDOWN_CONFIG, maxStringLength: input.length });
+
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+import fs, { FSWatcher, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { EventEmitter } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadPolicy } from '../src/config/loadPolicy';
+import { POLICY_SCHEMA } from '../src/config/policySchema';
+import { ConfigValidationError } from '../src/config/validateConfig';
+import { sanitizeRequestLike } from '../src/utils/requestSanitizer';
+import { SanitizationPolicy } from '../src/types/policy';
+
+const createTestLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+const POLICY = {
+  defaultProfile: 'comments',
+  profiles: {
+    comments: { extends: 'base', removeTags: ['a'] },
+    docs: {
+      extends: 'comments',
+      addTags: ['code'],
+      addAttributes: { code: ['class'] },
+      allowedClasses: { code: [{ regex: '^lang-[a-z]+$', flags: 'i' }] },
+    },
+  },
+  routes: [
+    { path: '/auth', mode: 'skip' },
+    { path: '/docs', profile: 'docs' },
+    { path: '/admin', method: ['POST', 'PUT'], profile: 'admin', mode: 'reject' },
+  ],
+};
+
+let dir: string;
+const writePolicy = (name: string, contents: unknown) => {
+  const file = join(dir, name);
+  writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return file;
+};
+
+const getErrorIssues = (load: () => unknown) => {
+  try {
+    load();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    return (error as ConfigValidationError).issues.filter(issue => issue.level === 'error');
+  }
+  throw new Error('Expected the policy to be rejected');
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'sanitize-policy-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadPolicy', () => {
+  it('resolves profiles that extend each other and built-in profiles', () => {
+    const { current } = loadPolicy(writePolicy('policy.json', POLICY));
+
+    expect(current.profiles.comments.allowedTags).not.toContain('a');
+    expect(current.profiles.docs.allowedTags).toEqual(expect.arrayContaining(['code', 'p']));
+    expect(current.profiles.docs.allowedClasses?.code).toEqual([/^lang-[a-z]+$/i]);
+    expect(Object.isFrozen(current.profiles.docs.allowedTags)).toBe(true);
+  });
+
+  it('reads YAML policies', () => {
+    const file = writePolicy('policy.yaml', [
+      'defaultProfile: strict',
+      'routes:',
+      '  - path: /health',
+      '    mode: skip',
+    ].join('\n'));
+
+    expect(loadPolicy(file).current).toMatchObject({ defaultProfile: 'strict', routes: [{ path: '/health', mode: 'skip' }] });
+  });
+
+  it('reports schema errors with their paths', () => {
+    const file = writePolicy('policy.json', {
+      profiles: { forum: { allowedTag: ['p'], maxStringLength: '100', linkPolicy: { rel: 'nofollow' } } },
+      routes: [{ method: 'GET', mode: 'block' }],
+    });
+
+    expect(getErrorIssues(() => loadPolicy(file))).toEqual([
+      { level: 'error', path: 'profiles.forum.allowedTag', message: "unknown property, did you mean 'allowedTags'?" },
+      { level: 'error', path: 'profiles.forum.maxStringLength', message: 'must be integer' },
+      { level: 'error', path: 'profiles.forum.linkPolicy.rel', message: 'must be array' },
+      { level: 'error', path: 'routes[0].path', message: 'is required' },
+      { level: 'error', path: 'routes[0].mode', message: "must be one of 'sanitize', 'report', 'reject', 'skip'" },
+    ]);
+  });
+
+  it('reports unknown profiles, invalid configs and regular expressions', () => {
+    const file = writePolicy('policy.json', {
+      defaultProfile: 'missing',
+      profiles: {
+        forum: { extends: 'base', addTags: ['paragraf'], allowedClasses: { p: [{ regex: '(' }] } },
+        loop: { extends: 'loop' },
+      },
+      routes: [{ path: '/docs', profile: 'docs' }, { path: 'api' }],
+    });
+
+    let message = '';
+    const issues = getErrorIssues(() => {
+      try {
+        loadPolicy(file);
+      } catch (error) {
+        message = (error as Error).message;
+        throw error;
+      }
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'profiles.forum.allowedClasses.p[0]', message: expect.stringMatching(/^invalid regular expression/) }),
+      { level: 'error', path: 'profiles.forum.allowedTags[10]', message: "unknown tag 'paragraf'" },
+      { level: 'error', path: 'profiles.loop.extends', message: "circular extends through 'loop'" },
+      { level: 'error', path: 'defaultProfile', message: "unknown profile 'missing'" },
+      { level: 'error', path: 'routes[0].profile', message: "unknown profile 'docs'" },
+      { level: 'error', path: 'routes[1].path', message: "Invalid route pattern 'api': must start with '/'" },
+    ]);
+    expect(message).toContain(`Invalid sanitization policy ${file}:\n  profiles.forum.allowedClasses.p[0]: invalid regular expression`);
+  });
+
+  it('logs warnings and reports parse errors', () => {
+    const logger = createTestLogger();
+    loadPolicy(writePolicy('policy.json', { profiles: { embeds: { allowedTags: ['iframe'] } } }), { logger });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("profiles.embeds.allowedTags[0]: 'iframe' can run script or load other content"),
+      expect.objectContaining({ event: 'policy-warning' })
+    );
+    expect(() => loadPolicy(writePolicy('broken.json', '{ "profiles": '))).toThrow(ConfigValidationError);
+  });
+
+  it('matches the published JSON Schema', () => {
+    const published = JSON.parse(readFileSync(join(__dirname, '../schema/sanitization-policy.schema.json'), 'utf8'));
+
+    expect(published).toEqual(POLICY_SCHEMA);
+  });
+});
+
+describe('request sanitization with a policy', () => {
+  const XSS = '<p>Hi <a href="/x">link</a><code class="lang-ts evil">x</code></p><script>alert(1)</script>';
+
+  it('picks the profile and mode for the route', () => {
+    const policy = loadPolicy(writePolicy('policy.json', POLICY));
+    const sanitize = (method: string, path: string) => sanitizeRequestLike({ method, path, body: { text: XSS } }, { policy });
+
+    expect(sanitize('POST', '/comments').values.body).toEqual({ text: '<p>Hi linkx</p>' });
+    expect(sanitize('POST', '/docs/intro').values.body).toEqual({ text: '<p>Hi link<code class="lang-ts">x</code></p>' });
+    expect(sanitize('POST', '/auth/login')).toEqual({ skipped: true, values: {} });
+    expect(sanitize('POST', '/author').skipped).toBe(false);
+    expect(sanitize('POST', '/admin/users').error?.name).toBe('SanitizationRejectedError');
+    expect(sanitize('GET', '/admin/users').values.body).toEqual({ text: '<p>Hi linkx</p>' });
+  });
+
+  describe('with watch', () => {
+    let policy: SanitizationPolicy;
+
+    afterEach(() => {
+      policy.close();
+    });
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(condition()).toBe(true);
+    };
+
+    it('swaps the policy used by running middleware when the file changes', async () => {
+      const file = writePolicy('policy.json', POLICY);
+      const onReload = jest.fn();
+      policy = loadPolicy(file, { watch: true, debounceMs: 10, onReload });
+      const sanitize = () => sanitizeRequestLike({ method: 'POST', path: '/comments', body: { text: XSS } }, { policy });
+      expect(sanitize().values.body).toEqual({ text: '<p>Hi linkx</p>' });
+
+      writePolicy('policy.json', { ...POLICY, defaultProfile: 'strict' });
+      await waitFor(() => onReload.mock.calls.length > 0);
+
+      expect(policy.current.defaultProfile).toBe('strict');
+      // strict drops disallowed tags together with their content
+      expect(sanitize().values.body).toEqual({ text: '' });
+    });
+
+    it('reports watcher errors instead of crashing', () => {
+      const onError = jest.fn();
+      const logger = createTestLogger();
+      const watchers: FSWatcher[] = [];
+      const watchSpy = jest.spyOn(fs, 'watch').mockImplementation(() => {
+        const watcher = new EventEmitter() as FSWatcher;
+        Object.assign(watcher, { close: jest.fn(), unref: jest.fn() });
+        watchers.push(watcher);
+        return watcher;
+      });
+      try {
+        policy = loadPolicy(writePolicy('policy.json', POLICY), { watch: true, logger, onError });
+        watchers[0].emit('error', new Error('EPERM: operation not permitted'));
+      } finally {
+        watchSpy.mockRestore();
+      }
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'EPERM: operation not permitted' }));
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('EPERM'), { event: 'policy-reload-failed' });
+    });
+
+    it('keeps the previous policy when a change is invalid', async () => {
+      const file = writePolicy('policy.json', POLICY);
+      const logger = createTestLogger();
+      const onError = jest.fn();
+      policy = loadPolicy(file, { watch: true, debounceMs: 10, logger, onError });
+      const previous = policy.current;
+
+      writePolicy('policy.json', { ...POLICY, defaultProfile: 'missing' });
+      await waitFor(() => onError.mock.calls.length > 0);
+
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(ConfigValidationError);
+      expect(policy.current).toBe(previous);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("defaultProfile: unknown profile 'missing'"),
+        { event: 'policy-reload-failed' }
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  BLOG_CONFIG,
+  createCustomConfig,
+  getConfig,
+  registerProfile,
+  SANITIZATION_CONFIGS,
+} from '../src/config/sanitizationConfigs';
+import { ConfigValidationError, validateConfig } from '../src/config/validateConfig';
+import { sanitizeRequestData, sanitizeString } from '../src/utils/sanitizer';
+
+declare module '../src/config/sanitizationConfigs' {
+  interface RegisteredProfiles {
+    forum: true;
+  }
+}
+
+const createTestLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+describe('built-in profiles', () => {
+  it('are deeply frozen', () => {
+    const blog = getConfig('blog');
+
+    expect(blog).toBe(BLOG_CONFIG);
+    expect(() => (blog.allowedTags as string[]).push('script')).toThrow(TypeError);
+    expect(() => { (blog.allowedAttributes as Record<string, string[]>).a = ['onclick']; }).toThrow(TypeError);
+    expect(BLOG_CONFIG.allowedTags).not.toContain('script');
+  });
+
+  it('have no validation errors', () => {
+    for (const [name, config] of Object.entries(SANITIZATION_CONFIGS)) {
+      expect({ name, errors: validateConfig(config).filter(issue => issue.level === 'error') }).toEqual({ name, errors: [] });
+    }
+    expect(validateConfig(getConfig('admin'))).toContainEqual({
+      level: 'warning',
+      path: 'allowedAttributes.form',
+      message: 'form[action] lets content send form data to any URL',
+    });
+  });
+});
+
+describe('createCustomConfig', () => {
+  it('adds and removes tags and attributes', () => {
+    const config = createCustomConfig('blog', {
+      addTags: ['table', 'tr', 'td'],
+      removeTags: ['img'],
+      addAttributes: { td: ['colspan'], a: ['title'] },
+      removeAttributes: { a: ['rel'] },
+    });
+
+    expect(config.allowedTags).toEqual(expect.arrayContaining(['p', 'table', 'tr', 'td']));
+    expect(config.allowedTags).not.toContain('img');
+    expect(config.allowedAttributes).toMatchObject({ td: ['colspan'], a: ['href', 'title'] });
+    expect(config.allowedAttributes).not.toHaveProperty('img');
+    expect(BLOG_CONFIG.allowedAttributes?.a).toEqual(['href', 'title', 'rel']);
+  });
+
+  it('still replaces allowedTags when given', () => {
+    expect(createCustomConfig('blog', { allowedTags: ['b'], addTags: ['i'] }).allowedTags).toEqual(['b', 'i']);
+  });
+});
+
+describe('registerProfile', () => {
+  it('registers a frozen profile that extends another', () => {
+    const forum = registerProfile('forum', { addTags: ['pre'], removeTags: ['img'], maxStringLength: 5000 }, { extends: 'comment' });
+
+    expect(getConfig('forum')).toBe(forum);
+    expect(Object.isFrozen(forum.allowedTags)).toBe(true);
+    expect(forum).toMatchObject({ maxStringLength: 5000, linkPolicy: { rel: ['nofollow', 'ugc'] } });
+    expect(sanitizeString('<pre>x</pre><img src="a.png">', getConfig('forum')).data).toBe('<pre>x</pre>');
+    expect(sanitizeRequestData({ post: '<pre>x</pre>' }, getConfig('strict'), { schema: { post: 'forum' } }).data)
+      .toEqual({ post: '<pre>x</pre>' });
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => registerProfile('blog', {})).toThrow("Sanitization profile 'blog' is already registered");
+  });
+
+  it('throws on unknown tags and attributes for tags that are not allowed', () => {
+    let error: unknown;
+    try {
+      registerProfile('broken', { allowedTags: ['p', 'blink-ish', 'paragraf'], allowedAttributes: { img: ['src'], '*': ['title'] } });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      { level: 'error', path: 'allowedTags[2]', message: "unknown tag 'paragraf'" },
+      { level: 'error', path: 'allowedAttributes.img', message: "tag 'img' is not in allowedTags" },
+    ]);
+    expect(() => getConfig('broken' as never)).toThrow('Unknown sanitization config: broken');
+  });
+
+  it('logs dangerous combinations as warnings', () => {
+    const logger = createTestLogger();
+
+    registerProfile('forms', { allowedTags: ['form', 'input', 'script'], allowedAttributes: { form: ['action'], input: ['onfocus'] } }, { logger });
+
+    expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+      "Sanitization profile 'forms' allowedTags[2]: 'script' can run script or load other content",
+      "Sanitization profile 'forms' allowedAttributes.form: form[action] lets content send form data to any URL",
+      "Sanitization profile 'forms' allowedAttributes.input: 'onfocus' is an event handler and runs script",
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { compileRoutePattern, findRoute } from '../src/utils/routeMatcher';
+import { explainRoute, sanitizeRequestLike } from '../src/utils/requestSanitizer';
+import { RequestRoute } from '../src/types/request';
+import { getConfig } from '../src/config/sanitizationConfigs';
+import { SanitizationRejectedError } from '../src/utils/sanitizer';
+
+const XSS = '<script>alert(1)</script><p>Hello <b>there</b></p>';
+
+describe('findRoute', () => {
+  const routes = [
+    { path: '/users/**' },
+    { path: '/users/:id' },
+    { path: '/users/new' },
+    { path: '/users/:id', method: 'POST' },
+    { path: '/files/*.json' },
+    { path: '/files/*' },
+    { path: '/auth' },
+  ];
+  const find = (method: string, path: string) => {
+    const match = findRoute(routes, method, path);
+    return match && { index: match.index, params: match.params };
+  };
+
+  it('prefers literal segments, then globs, then parameters, then **', () => {
+    expect(find('GET', '/users/new')).toEqual({ index: 2, params: {} });
+    expect(find('GET', '/users/42')).toEqual({ index: 1, params: { id: '42' } });
+    expect(find('GET', '/users')).toEqual({ index: 0, params: {} });
+    expect(find('GET', '/files/data.json')).toEqual({ index: 4, params: {} });
+    expect(find('GET', '/files/data.csv')).toEqual({ index: 5, params: {} });
+  });
+
+  it('prefers a route that names the method', () => {
+    expect(find('POST', '/users/42')).toEqual({ index: 3, params: { id: '42' } });
+    expect(find('post', '/users/42/avatar')).toEqual({ index: 3, params: { id: '42' } });
+  });
+
+  it('matches whole segments, ignoring case, trailing slashes and the query', () => {
+    expect(find('GET', '/auth/login')).toEqual({ index: 6, params: {} });
+    expect(find('GET', '/AUTH/?next=/')).toEqual({ index: 6, params: {} });
+    expect(find('GET', '/author/posts')).toBeUndefined();
+    expect(find('GET', '/files')).toBeUndefined();
+  });
+
+  it('decodes parameters', () => {
+    expect(findRoute([{ path: '/tags/:tag' }], 'GET', '/tags/a%20b')?.params).toEqual({ tag: 'a b' });
+    expect(findRoute([{ path: '/tags/:tag' }], 'GET', '/tags/%E0')?.params).toEqual({ tag: '%E0' });
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => compileRoutePattern('users')).toThrow("Invalid route pattern 'users': must start with '/'");
+    expect(() => compileRoutePattern('/users/:id/:id')).toThrow("duplicate parameter 'id'");
+    expect(() => compileRoutePattern('/users/id:id')).toThrow('parameters must take up a whole segment');
+  });
+});
+
+describe('routes option', () => {
+  const routes: RequestRoute[] = [
+    { path: '/auth', mode: 'skip' },
+    { path: '/posts/:id/comments', profile: 'strict' },
+    { path: '/admin/**', method: ['POST', 'PUT'], profile: getConfig('admin'), mode: 'reject' },
+  ];
+  const sanitize = (method: string, path: string) =>
+    sanitizeRequestLike({ method, path, body: { text: XSS } }, { config: 'base', routes });
+
+  it('picks the profile and mode of the most specific route', () => {
+    expect(sanitize('POST', '/auth/login')).toEqual({ skipped: true, values: {} });
+    expect(sanitize('POST', '/author/posts').values.body).toEqual({ text: '<p>Hello <b>there</b></p>' });
+    expect(sanitize('POST', '/posts/1/comments').values.body).toEqual({ text: '' });
+    expect(sanitize('PUT', '/admin/pages').error).toBeInstanceOf(SanitizationRejectedError);
+    expect(sanitize('GET', '/admin/pages').values.body).toEqual({ text: '<p>Hello <b>there</b></p>' });
+  });
+
+  it('matches skipPaths by segment instead of substring', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const options = { skipPaths: ['/auth', 'health'], logger };
+
+    expect(sanitizeRequestLike({ path: '/auth/login', body: { text: XSS } }, options).skipped).toBe(true);
+    expect(sanitizeRequestLike({ path: '/health', body: { text: XSS } }, options).skipped).toBe(true);
+    expect(sanitizeRequestLike({ path: '/api/health', body: { text: XSS } }, options).skipped).toBe(false);
+    expect(sanitizeRequestLike({ path: '/author/posts', body: { text: XSS } }, options).skipped).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "skipPaths entries without a leading '/' match from the root: 'health'",
+      expect.objectContaining({ event: 'skip-path-relative', paths: ['health'] })
+    );
+  });
+
+  it('lets a more specific route win over skipPaths', () => {
+    const options = { skipPaths: ['/api'], routes: [{ path: '/api/admin', mode: 'reject' as const }] };
+
+    expect(sanitizeRequestLike({ path: '/api/admin/users', body: { text: XSS } }, options).error)
+      .toBeInstanceOf(SanitizationRejectedError);
+    expect(sanitizeRequestLike({ path: '/api/posts', body: { text: XSS } }, options).skipped).toBe(true);
+    expect(explainRoute({ path: '/api' }, { skipPaths: ['/api'], routes: [{ path: '/api' }] }).source).toBe('skipPaths');
+  });
+
+  it('throws on invalid patterns when the middleware is created', () => {
+    expect(() => sanitizeRequestLike({ path: '/' }, { routes: [{ path: '/x/:' }] }))
+      .toThrow("Invalid route pattern '/x/:': invalid parameter name ''");
+  });
+});
+
+describe('explainRoute', () => {
+  it('reports the rule that applies to a request', () => {
+    const routes: RequestRoute[] = [{ path: '/posts/:id' }, { path: '/posts/:id', method: 'DELETE', mode: 'report' }];
+    const options = { config: 'blog' as const, mode: 'reject' as const, routes, skipPaths: ['/health'] };
+
+    expect(explainRoute({ method: 'DELETE', url: '/posts/7?force=1' }, options)).toEqual({
+      source: 'routes',
+      route: routes[1],
+      index: 1,
+      params: { id: '7' },
+      profile: 'blog',
+      mode: 'report',
+    });
+    expect(explainRoute({ path: '/health/live' }, options)).toMatchObject({ source: 'skipPaths', index: 0, mode: 'skip' });
+    expect(explainRoute({ path: '/' }, options)).toEqual({ source: 'default', params: {}, profile: 'blog', mode: 'reject' });
+  });
+});
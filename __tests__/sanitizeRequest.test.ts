@@ -3,10 +3,27 @@ import { Request, Response, NextFunction } from 'express';
 // Mocks
 const mockSanitizeRequestData = jest.fn();
 class MockSanitizationError extends Error { }
+class MockSanitizationRejectedError extends MockSanitizationError {
+  status = 400;
+  constructor(public fields: string[]) {
+    super('rejected');
+  }
+}
+
+class MockSanitizationValidationError extends MockSanitizationError {
+  status = 400;
+  constructor(public fields: string[], public errors: string[]) {
+    super('invalid');
+  }
+}
 
 jest.mock('../src/utils/sanitizer', () => ({
-  sanitizeRequestData: (...args: any[]) => mockSanitizeRequestData(...args),
+  createSanitizer: (config: any, options: any) => ({
+    sanitize: (data: any, callOptions: any) => mockSanitizeRequestData(data, config, { ...options, ...callOptions }),
+  }),
   SanitizationError: MockSanitizationError,
+  SanitizationRejectedError: MockSanitizationRejectedError,
+  SanitizationValidationError: MockSanitizationValidationError,
 }));
 
 const mockGetConfig = jest.fn();
@@ -81,6 +98,22 @@ describe('sanitizeRequest middleware', () => {
     expect(next).toHaveBeenCalledWith(expect.any(Error));
   });
 
+  it('fails requests with values that do not match their pattern with a 400', () => {
+    const change = { field: 'slug', rules: ['pattern-mismatch'], removedTags: [], removedAttributes: [], blockedUrls: [], originalLength: 5, finalLength: 5 };
+    req.body = { slug: 'Bad!' };
+    mockSanitizeRequestData.mockReturnValue({
+      data: { slug: 'Bad' }, sanitized: true, warnings: [], errors: ['bad slug'], fieldsModified: ['slug'], changes: [change],
+    });
+    mockGetConfig.mockReturnValue({});
+
+    runMiddleware();
+
+    const error = next.mock.calls[0][0];
+    expect(error).toBeInstanceOf(MockSanitizationValidationError);
+    expect(error.fields).toEqual(['body.slug']);
+    expect(req.body).toEqual({ slug: 'Bad!' });
+  });
+
   it('calls onSanitized when sanitization occurs', () => {
     const onSanitized = jest.fn();
     req.body = { content: 'test' };
@@ -111,11 +144,226 @@ describe('sanitizeRequest middleware', () => {
    
     expect(consoleWarn).toHaveBeenCalledWith(
       expect.stringContaining('Sanitization warnings for POST /'),
-      ['warn']
+      expect.objectContaining({ event: 'sanitization-warnings', warnings: ['warn'] })
     );
 
     consoleWarn.mockRestore();
   });
 
+  describe('targets', () => {
+    const clean = (value: any) => ({ data: { ...value, cleaned: true }, sanitized: true, warnings: [], errors: [] });
+
+    it('sanitizes only the body by default', () => {
+      req.body = { a: '1' };
+      req.query = { q: '<b>' } as any;
+      mockSanitizeRequestData.mockImplementation(clean);
+      mockGetConfig.mockReturnValue({});
+
+      runMiddleware();
+
+      expect(mockSanitizeRequestData).toHaveBeenCalledTimes(1);
+      expect(req.body.cleaned).toBe(true);
+      expect((req.query as any).cleaned).toBeUndefined();
+    });
+
+    it('sanitizes each requested target with its own config', () => {
+      const queryConfig = { allowedTags: [] };
+      req.body = { a: '1' };
+      req.params = { id: '<i>1</i>' } as any;
+      req.query = { q: '<b>' } as any;
+      mockSanitizeRequestData.mockImplementation(clean);
+      mockGetConfig.mockImplementation((name: string) => ({ name }));
+
+      runMiddleware({ config: 'blog', targets: ['body', 'query', 'params'], targetConfigs: { query: queryConfig, params: 'strict' } });
+
+      expect(mockSanitizeRequestData).toHaveBeenCalledWith({ a: '1' }, { name: 'blog' }, expect.anything());
+      expect(mockSanitizeRequestData).toHaveBeenCalledWith({ q: '<b>' }, queryConfig, expect.anything());
+      expect(mockSanitizeRequestData).toHaveBeenCalledWith({ id: '<i>1</i>' }, { name: 'strict' }, expect.anything());
+      expect((req.params as any).cleaned).toBe(true);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('replaces a getter-only req.query', () => {
+      const proto = { get query() { return { q: '<b>x</b>' }; } };
+      const getterReq = Object.create(proto);
+      Object.assign(getterReq, { path: '/', method: 'GET' });
+      mockSanitizeRequestData.mockImplementation(clean);
+      mockGetConfig.mockReturnValue({});
+
+      sanitizeRequest({ targets: ['query'] })(getterReq as Request, res as Response, next);
+
+      expect(getterReq.query).toEqual({ q: '<b>x</b>', cleaned: true });
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('records per-target results in _sanitization', () => {
+      req.body = { a: '1' };
+      req.headers = { 'x-name': '<b>' } as any;
+      mockSanitizeRequestData
+        .mockReturnValueOnce({ data: { a: '1' }, sanitized: false, warnings: [], errors: [] })
+        .mockReturnValueOnce({ data: { 'x-name': '' }, sanitized: true, warnings: ['w'], errors: [] });
+      mockGetConfig.mockReturnValue({});
+
+      runMiddleware({ targets: ['body', 'headers'] });
+
+      expect(req._sanitization).toMatchObject({
+        sanitized: true,
+        warnings: ['w'],
+        targets: {
+          body: { sanitized: false, warnings: [] },
+          headers: { sanitized: true, warnings: ['w'] },
+        },
+      });
+      expect(req.headers).toEqual({ 'x-name': '' });
+    });
+
+    it('skips targets that are missing on the request', () => {
+      req.body = { a: '1' };
+      mockSanitizeRequestData.mockImplementation(clean);
+      mockGetConfig.mockReturnValue({});
+
+      runMiddleware({ targets: ['body', 'cookies'] });
+
+      expect(mockSanitizeRequestData).toHaveBeenCalledTimes(1);
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  it('adds sensitiveFields to the resolved config without mutating it', () => {
+    const config = { allowedTags: ['b'] };
+    req.body = { a: '1' };
+    mockSanitizeRequestData.mockReturnValue({ data: { a: '1' }, sanitized: false, warnings: [], errors: [] });
+
+    runMiddleware({ config, sensitiveFields: ['*.ssn'] });
+
+    expect(mockSanitizeRequestData).toHaveBeenCalledWith({ a: '1' }, { allowedTags: ['b'], sensitiveFields: ['*.ssn'] }, expect.anything());
+    expect(config).toEqual({ allowedTags: ['b'] });
+  });
+
+  it('passes the field schema to sanitizeRequestData', () => {
+    const schema = { title: 'plaintext' as const, body: 'blog' as const };
+    req.body = { title: 't' };
+    mockSanitizeRequestData.mockReturnValue({ data: { title: 't' }, sanitized: false, warnings: [], errors: [] });
+    mockGetConfig.mockReturnValue({});
+
+    runMiddleware({ schema });
+
+    expect(mockSanitizeRequestData).toHaveBeenCalledWith({ title: 't' }, {}, expect.objectContaining({ schema }));
+  });
 
+  describe('modes', () => {
+    const dirty = {
+      data: { title: 'clean' },
+      sanitized: true,
+      warnings: [],
+      errors: [],
+      fieldsModified: ['title'],
+    };
+
+    beforeEach(() => {
+      mockGetConfig.mockReturnValue({});
+    });
+
+    it('rejects modified requests with the offending paths and leaves the payload alone', () => {
+      const onError = jest.fn();
+      req.body = { title: '<b>dirty</b>' };
+      req.query = { q: '<i>x</i>' } as any;
+      mockSanitizeRequestData
+        .mockReturnValueOnce(dirty)
+        .mockReturnValueOnce({ ...dirty, data: { q: 'x' }, fieldsModified: ['q'] });
+
+      runMiddleware({ mode: 'reject', targets: ['body', 'query'], onError });
+
+      const error = next.mock.calls[0][0] as any;
+      expect(error).toBeInstanceOf(MockSanitizationRejectedError);
+      expect(error.status).toBe(400);
+      expect(error.fields).toEqual(['body.title', 'query.q']);
+      expect(onError).toHaveBeenCalledWith(error, req);
+      expect(req.body).toEqual({ title: '<b>dirty</b>' });
+      expect(req.query).toEqual({ q: '<i>x</i>' });
+    });
+
+    it('lets unchanged requests through in reject mode', () => {
+      req.body = { title: 'clean' };
+      mockSanitizeRequestData.mockReturnValue({ data: { title: 'clean' }, sanitized: false, warnings: [], errors: [], fieldsModified: [] });
+
+      runMiddleware({ mode: 'reject' });
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('only records metadata in report mode', () => {
+      const onSanitized = jest.fn();
+      req.body = { title: '<b>dirty</b>' };
+      mockSanitizeRequestData.mockReturnValue({ ...dirty, errors: ['bad slug'] });
+
+      runMiddleware({ mode: 'report', onSanitized });
+
+      expect(req.body).toEqual({ title: '<b>dirty</b>' });
+      expect(req._sanitization).toMatchObject({ mode: 'report', fieldsModified: ['body.title'], errors: ['bad slug'] });
+      expect(onSanitized).toHaveBeenCalledWith(req._sanitization);
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  it('prefixes change reports with the target name', () => {
+    const change = { field: 'bio', rules: ['event-handler-removed'], removedTags: [], removedAttributes: [], blockedUrls: [], originalLength: 10, finalLength: 5 };
+    req.body = { bio: 'x' };
+    mockSanitizeRequestData.mockReturnValue({ data: { bio: 'x' }, sanitized: true, warnings: [], errors: [], fieldsModified: ['bio'], changes: [change] });
+    mockGetConfig.mockReturnValue({});
+
+    runMiddleware();
+
+    expect(req._sanitization.changes).toEqual([{ ...change, field: 'body.bio' }]);
+  });
+
+  describe('logging', () => {
+    const createTestLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+    beforeEach(() => {
+      mockGetConfig.mockReturnValue({});
+      mockSanitizeRequestData.mockReturnValue({ data: {}, sanitized: false, warnings: ['w'], errors: [] });
+    });
+
+    it('sends structured warning events to an injected logger with the request id', () => {
+      const logger = createTestLogger();
+      req.body = { a: '1' };
+      req.method = 'POST';
+      req.headers = { 'x-request-id': 'req-1' } as any;
+
+      runMiddleware({ logWarnings: true, logger });
+
+      expect(logger.warn).toHaveBeenCalledWith('Sanitization warnings for POST /', {
+        event: 'sanitization-warnings',
+        method: 'POST',
+        path: '/',
+        warnings: ['w'],
+        requestId: 'req-1',
+      });
+    });
+
+    it('passes the request logger to the sanitizer', () => {
+      const logger = createTestLogger();
+      req.body = { a: '1' };
+
+      runMiddleware({ logger, logLevel: 'debug', getRequestId: () => 'custom' });
+
+      const sanitizerLogger = mockSanitizeRequestData.mock.calls[0][2].logger;
+      sanitizerLogger.debug('skipped', { event: 'sensitive-field-skipped', field: 'password' });
+      expect(logger.debug).toHaveBeenCalledWith('skipped', {
+        event: 'sensitive-field-skipped',
+        field: 'password',
+        requestId: 'custom',
+      });
+    });
+
+    it('drops messages below the configured level', () => {
+      const logger = createTestLogger();
+      req.body = { a: '1' };
+
+      runMiddleware({ logWarnings: true, logger, logLevel: 'error' });
+
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+  });
 });
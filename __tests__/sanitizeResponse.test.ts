@@ -0,0 +1,144 @@
+import { Request, Response, NextFunction } from 'express';
+import { sanitizeResponse } from '../src/middleware/sanitizeResponse';
+
+const XSS = '<script>alert(1)</script>Hello';
+
+describe('sanitizeResponse middleware', () => {
+  let req: Partial<Request>;
+  let res: any;
+  let sent: jest.Mock;
+  let next: jest.Mock<NextFunction>;
+
+  beforeEach(() => {
+    req = { method: 'GET', path: '/posts' };
+    sent = jest.fn();
+    res = {
+      locals: {},
+      status: jest.fn(function (this: any, code: number) {
+        this.statusCode = code;
+        return this;
+      }),
+      // Mirrors Express, where res.json serializes and delegates to res.send
+      json: jest.fn(function (this: any, body: unknown) {
+        return this.send(JSON.stringify(body));
+      }),
+      send: jest.fn(function (this: any, body: unknown) {
+        if (body && typeof body === 'object') return this.json(body);
+        sent(body);
+        return this;
+      }),
+    };
+    next = jest.fn();
+  });
+
+  const run = (options = {}) => {
+    sanitizeResponse(options)(req as Request, res as Response, next);
+    expect(next).toHaveBeenCalledWith();
+  };
+
+  it('sanitizes payloads passed to res.json', () => {
+    run();
+    res.json({ title: XSS, count: 3 });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({ title: 'Hello', count: 3 });
+    expect(res.locals.sanitization).toMatchObject({ sanitized: true, fieldsModified: ['title'] });
+  });
+
+  it('sanitizes object payloads passed to res.send once', () => {
+    const onSanitized = jest.fn();
+    run({ onSanitized });
+    res.send({ items: [{ bio: XSS }] });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({ items: [{ bio: 'Hello' }] });
+    expect(onSanitized).toHaveBeenCalledTimes(1);
+    expect(onSanitized).toHaveBeenCalledWith(
+      expect.objectContaining({ fieldsModified: ['items[0].bio'] }),
+      req
+    );
+  });
+
+  it('leaves string bodies passed to res.send alone unless enabled', () => {
+    run();
+    res.send('<html><script>app()</script></html>');
+    expect(sent).toHaveBeenLastCalledWith('<html><script>app()</script></html>');
+
+    run({ sanitizeStrings: true });
+    res.send(XSS);
+    expect(sent).toHaveBeenLastCalledWith('Hello');
+  });
+
+  it('only sanitizes included fields', () => {
+    run({ include: ['bio', 'comments[*].text'] });
+    res.json({ title: XSS, bio: XSS, comments: [{ text: XSS, author: XSS }] });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({
+      title: XSS,
+      bio: 'Hello',
+      comments: [{ text: 'Hello', author: XSS }],
+    });
+  });
+
+  it('skips excluded fields and everything below them', () => {
+    run({ exclude: ['html', 'raw.**'] });
+    res.json({ title: XSS, html: XSS, raw: { nested: { value: XSS } } });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({
+      title: 'Hello',
+      html: XSS,
+      raw: { nested: { value: XSS } },
+    });
+  });
+
+  it('uses the given profile', () => {
+    run({ config: 'plaintext' });
+    res.json({ title: '<b>Bold</b>' });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({ title: 'Bold' });
+  });
+
+  it('reports without changing the payload in report mode', () => {
+    run({ mode: 'report' });
+    res.json({ title: XSS });
+
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({ title: XSS });
+    expect(res.locals.sanitization.changes).toEqual([
+      expect.objectContaining({ field: 'title', rules: ['dangerous-tag-removed'], removedTags: ['script'] }),
+    ]);
+  });
+
+  it('does not apply the request limits to large responses', () => {
+    run();
+    const items = Array.from({ length: 20000 }, (_, index) => ({ id: index, title: index ? 'ok' : XSS }));
+    res.json({ items });
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(JSON.parse(sent.mock.calls[0][0]).items).toHaveLength(20000);
+    expect(res.locals.sanitization.fieldsModified).toEqual(['items[0].title']);
+  });
+
+  it('sends a 500 instead of a payload it could not sanitize', () => {
+    const onError = jest.fn();
+    run({ onError, limits: { maxArrayLength: 100 } });
+    res.json({ title: XSS, items: Array.from({ length: 101 }, (_, index) => index) });
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual({ error: 'Response sanitization failed' });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'SanitizationLimitError' }), req);
+  });
+
+  it('sends the original payload on failure with failOpen', () => {
+    run({ failOpen: true, limits: { maxArrayLength: 100 } });
+    const body = { title: XSS, items: Array.from({ length: 101 }, (_, index) => index) };
+    res.json(body);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(JSON.parse(sent.mock.calls[0][0])).toEqual(body);
+  });
+
+  it('does not set metadata for clean payloads', () => {
+    run();
+    res.json({ title: 'Hello' });
+
+    expect(res.locals.sanitization).toBeUndefined();
+  });
+});
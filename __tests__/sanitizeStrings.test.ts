@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { sanitizeStrings } from '../src/middleware/sanitizeStrings';
 import { SENSITIVE_FIELDS } from '../src/constants/sensitiveFields';
+import { SanitizationLimitError } from '../src/utils/sanitizer';
 
 type MockReq = Partial<Request> & { body?: any };
 
@@ -74,4 +75,97 @@ describe('sanitizeStrings middleware', () => {
     runMiddleware({ customSanitizer: () => { throw error; } });
     expect(next).toHaveBeenCalledWith(error);
   });
+
+  it('matches sensitive fields case-insensitively', () => {
+    req.body = { Password: '<secret>', API_KEY: '<key>' };
+    runMiddleware();
+    expect(req.body).toEqual({ Password: '<secret>', API_KEY: '<key>' });
+  });
+
+  it('reports sanitizer failures to an injected logger', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    req.body = { text: 'ok' };
+    runMiddleware({ logger, customSanitizer: () => { throw new Error('Fail'); } });
+    expect(logger.error).toHaveBeenCalledWith('Error sanitizing string fields', {
+      event: 'sanitize-strings-failed',
+      error: 'Fail',
+    });
+  });
+
+  it('recurses into nested objects and arrays', () => {
+    req.body = { user: { name: '<b>x</b>', tags: ['<i>a</i>', { label: '"q"' }] }, count: 2 };
+    runMiddleware();
+    expect(req.body).toEqual({ user: { name: 'bx/b', tags: ['ia/i', { label: 'q' }] }, count: 2 });
+  });
+
+  it('skips nested sensitive fields', () => {
+    req.body = { user: { password: '<p&ss>', name: '<n>' }, credentials: [{ token: '<t>' }] };
+    runMiddleware();
+    expect(req.body).toEqual({ user: { password: '<p&ss>', name: 'n' }, credentials: [{ token: '<t>' }] });
+  });
+
+  it('rejects circular and overly deep bodies', () => {
+    const circular: any = { name: '<b>' };
+    circular.self = circular;
+    req.body = circular;
+    runMiddleware();
+    expect(next).toHaveBeenLastCalledWith(expect.objectContaining({ limit: 'circular', path: 'self' }));
+
+    req.body = { a: { b: { c: '<b>' } } };
+    runMiddleware({ maxDepth: 2 });
+    expect(next).toHaveBeenLastCalledWith(expect.any(SanitizationLimitError));
+    expect(next.mock.calls[1][0].message).toBe("Nesting deeper than 2 levels at 'a.b'");
+
+    const shared = { text: '<i>' };
+    req.body = { first: shared, second: shared };
+    runMiddleware();
+    expect(next).toHaveBeenLastCalledWith();
+  });
+
+  it('only touches top-level strings when deep is false', () => {
+    req.body = { top: '<b>', nested: { inner: '<b>' } };
+    runMiddleware({ deep: false });
+    expect(req.body).toEqual({ top: 'b', nested: { inner: '<b>' } });
+  });
+
+  describe('encoding modes', () => {
+    const input = `Tom & Jerry <say "hi" it's me>`;
+
+    it('html-entity-encode keeps punctuation as entities', () => {
+      req.body = { text: input };
+      runMiddleware({ mode: 'html-entity-encode' });
+      expect(req.body.text).toBe('Tom &amp; Jerry &lt;say &quot;hi&quot; it&#x27;s me&gt;');
+    });
+
+    it('attribute-encode encodes every non-alphanumeric character', () => {
+      req.body = { text: 'a b="c"' };
+      runMiddleware({ mode: 'attribute-encode' });
+      expect(req.body.text).toBe('a&#x20;b&#x3D;&#x22;c&#x22;');
+    });
+
+    it('js-string-encode escapes quotes, slashes and line separators', () => {
+      req.body = { text: `</script>'\u2028` };
+      runMiddleware({ mode: 'js-string-encode' });
+      expect(req.body.text).toBe('\\x3C\\x2Fscript\\x3E\\x27\\u2028');
+    });
+
+    it('url-encode percent-encodes the value', () => {
+      req.body = { text: 'a b&c=d/é' };
+      runMiddleware({ mode: 'url-encode' });
+      expect(req.body.text).toBe('a%20b%26c%3Dd%2F%C3%A9');
+    });
+
+    it('url-encode replaces lone surrogates instead of failing', () => {
+      req.body = JSON.parse('{"a":"\\ud800x","b":"\\udc00","c":"\\ud83d\\ude00"}');
+      runMiddleware({ mode: 'url-encode' });
+      expect(req.body).toEqual({ a: '%EF%BF%BDx', b: '%EF%BF%BD', c: '%F0%9F%98%80' });
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('lets customSanitizer override the mode', () => {
+      req.body = { text: '<b>' };
+      runMiddleware({ mode: 'url-encode', customSanitizer: (v: string) => v.length.toString() });
+      expect(req.body.text).toBe('3');
+    });
+  });
 });
@@ -1,6 +1,15 @@
 import DOMPurify from 'isomorphic-dompurify';
-import { sanitizeRequestData, sanitizeString, SanitizationError } from '../src/utils/sanitizer';
+import {
+  createSanitizer,
+  sanitizeRequestData,
+  sanitizeString,
+  SanitizationError,
+  SanitizationLimitError,
+  SanitizationRejectedError
+} from '../src/utils/sanitizer';
 import { SENSITIVE_FIELDS } from '../src/constants/sensitiveFields';
+import { registerTypeHandler, resetTypeHandlers } from '../src/utils/typeHandlers';
+import { ADMIN_CONFIG, BASE_CONFIG, BLOG_CONFIG, COMMENT_CONFIG, LIBERAL_CONFIG } from '../src/config/sanitizationConfigs';
 
 describe('Sanitizer', () => {
   const config = {
@@ -78,6 +87,11 @@ describe('Sanitizer', () => {
     expect(() => sanitizeRequestData({ a: '<b>x</b>' }, config)).toThrow(SanitizationError);
   });
 
+  it('reports truncated fields as modified', () => {
+    const result = sanitizeRequestData({ field: '12345678901234567890' }, config);
+    expect(result.fieldsModified).toEqual(['field']);
+  });
+
   it('produces warnings but no errors for long field', () => {
     const longString = '12345678901234567890';
     const result = sanitizeRequestData({ field: longString }, config);
@@ -100,4 +114,592 @@ describe('Sanitizer', () => {
     // sanitized may be false if nothing needed sanitization
     expect(result.sanitized).toBeFalsy();
   });
+
+  describe('per-tag attribute allowlists', () => {
+    it('drops attributes that are only allowed on other tags', () => {
+      const result = sanitizeString(
+        '<a href="/x" action="/steal">link</a><div colspan="2" class="box">text</div>',
+        ADMIN_CONFIG
+      );
+      expect(result.data).toContain('href="/x"');
+      expect(result.data).not.toContain('action=');
+      expect(result.data).not.toContain('colspan=');
+      expect(result.data).toContain('class="box"');
+    });
+
+    it('keeps attributes on the tag they are declared for', () => {
+      const result = sanitizeString('<form action="/save" method="post"></form>', ADMIN_CONFIG);
+      expect(result.data).toContain('action="/save"');
+      expect(result.data).toContain('method="post"');
+    });
+
+    it('removes data and aria attributes not listed in the profile', () => {
+      const result = sanitizeString('<span class="tag" data-id="1" aria-label="x">t</span>', BLOG_CONFIG);
+      expect(result.data).toBe('<span class="tag">t</span>');
+    });
+
+    it("allows global attributes declared under the '*' key", () => {
+      const globalConfig = {
+        allowedTags: ['p', 'span'],
+        allowedAttributes: { '*': ['title'], span: ['class'] },
+      };
+      const result = sanitizeString('<p title="a" class="b">x</p><span title="c" class="d">y</span>', globalConfig);
+      expect(result.data).toBe('<p title="a">x</p><span title="c" class="d">y</span>');
+    });
+  });
+
+  describe('maxTagDepth', () => {
+    it('flattens markup nested deeper than the limit and warns', () => {
+      const input = '<b><i><em><strong><b>deep</b></strong></em></i></b>';
+      const result = sanitizeString(input, COMMENT_CONFIG);
+      expect(result.data).toBe('<b><i><em>deep</em></i></b>');
+      expect(result.sanitized).toBeTruthy();
+      expect(result.warnings.some(w => w.includes('maxTagDepth'))).toBeTruthy();
+    });
+
+    it('leaves markup within the limit untouched', () => {
+      const result = sanitizeString('<b><i>ok</i></b>', COMMENT_CONFIG);
+      expect(result.data).toBe('<b><i>ok</i></b>');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('does not count removed tags towards the depth', () => {
+      const input = '<div><div><div><b><i>x</i></b></div></div></div>';
+      const result = sanitizeString(input, { ...COMMENT_CONFIG, stripIgnoreTagBody: false });
+      expect(result.data).toBe('<b><i>x</i></b>');
+    });
+  });
+
+  describe('stripIgnoreTag', () => {
+    it('escapes disallowed tags as visible text when false', () => {
+      const result = sanitizeString('<b>hi</b><script>alert(1)</script>', {
+        ...BLOG_CONFIG,
+        stripIgnoreTag: false,
+      });
+      expect(result.data).toBe('<b>hi</b>&lt;script&gt;alert(1)&lt;/script&gt;');
+    });
+
+    it('escapes disallowed tags whose attributes contain ">"', () => {
+      const result = sanitizeString('<img src="a>b" onerror="x()">', {
+        allowedTags: ['b'],
+        stripIgnoreTag: false,
+      });
+      expect(result.data).not.toContain('<img');
+      expect(result.data).toContain('&lt;img');
+    });
+
+    it('drops disallowed tags by default', () => {
+      const result = sanitizeString('<b>hi</b><u>there</u>', { ...COMMENT_CONFIG, stripIgnoreTagBody: false });
+      expect(result.data).toBe('<b>hi</b>there');
+    });
+
+    it('keeps text of allowed tags when stripIgnoreTagBody is set', () => {
+      const result = sanitizeString('<b>hi</b><u>there</u>', COMMENT_CONFIG);
+      expect(result.data).toBe('<b>hi</b>');
+    });
+  });
+
+  describe('sensitive fields', () => {
+    it('skips sensitive keys nested in objects and arrays', () => {
+      const data = {
+        user: { password: '<b>p&ss</b>', name: '<u>n</u>' },
+        credentials: [{ token: '<i>t</i>' }],
+      };
+      const result = sanitizeRequestData(data, config);
+      expect(result.data.user.password).toBe('<b>p&ss</b>');
+      expect(result.data.credentials[0].token).toBe('<i>t</i>');
+      expect(result.data.user.name).toBe('n');
+    });
+
+    it('matches sensitive keys case-insensitively', () => {
+      const result = sanitizeRequestData({ Password: '<u>x</u>', API_KEY: '<u>y</u>' }, config);
+      expect(result.data).toEqual({ Password: '<u>x</u>', API_KEY: '<u>y</u>' });
+    });
+
+    it('accepts extra sensitive patterns from the config', () => {
+      const data = { billing: { card: '<u>4111</u>' }, notes: '<u>n</u>' };
+      const result = sanitizeRequestData(data, { ...config, sensitiveFields: ['billing.**'] });
+      expect(result.data.billing.card).toBe('<u>4111</u>');
+      expect(result.data.notes).toBe('n');
+    });
+  });
+
+  describe('field schema', () => {
+    const post = {
+      title: '<b>Hello</b> & welcome',
+      body: '<h2>Intro</h2><p>Text</p><script>x()</script>',
+      slug: 'hello-world',
+      raw: '<b>keep</b>',
+      meta: { summary: '<i>short</i>', tags: ['<b>a</b>', '<u>b</u>'] },
+    };
+
+    it('applies a different profile to each field', () => {
+      const result = sanitizeRequestData(post, BASE_CONFIG, {
+        schema: {
+          title: 'plaintext',
+          body: 'blog',
+          slug: /^[a-z0-9-]+$/,
+          raw: 'skip',
+        },
+      });
+
+      expect(result.data.title).toBe('Hello &amp; welcome');
+      expect(result.data.body).toBe('<h2>Intro</h2><p>Text</p>');
+      expect(result.data.slug).toBe('hello-world');
+      expect(result.data.raw).toBe('<b>keep</b>');
+      expect(result.data.meta.summary).toBe('<i>short</i>');
+      expect(result.errors).toBeUndefined();
+    });
+
+    it('applies glob rules to nested fields and arrays', () => {
+      const result = sanitizeRequestData(post, BASE_CONFIG, {
+        schema: { 'meta.**': 'strict', 'meta.tags[*]': 'plaintext' },
+      });
+      expect(result.data.meta.summary).toBe('<i>short</i>');
+      expect(result.data.meta.tags).toEqual(['a', 'b']);
+    });
+
+    it('prefers exact paths over globs', () => {
+      const result = sanitizeRequestData(post, BASE_CONFIG, {
+        schema: { 'meta.*': 'plaintext', 'meta.summary': 'skip' },
+      });
+      expect(result.data.meta.summary).toBe('<i>short</i>');
+    });
+
+    it('accepts custom configs as rules', () => {
+      const result = sanitizeRequestData(post, BASE_CONFIG, { schema: { title: { allowedTags: ['b'] } } });
+      expect(result.data.title).toBe('<b>Hello</b> &amp; welcome');
+    });
+
+    it('reports an error when a field does not match its pattern', () => {
+      const result = sanitizeRequestData({ slug: 'Hello World<b>' }, BASE_CONFIG, { schema: { slug: /^[a-z0-9-]+$/ } });
+      expect(result.errors).toEqual([expect.stringContaining("Field 'slug' does not match")]);
+      expect(result.data.slug).toBe('Hello World');
+    });
+  });
+
+  describe('URL policy', () => {
+    it('removes href and src values that break the policy', () => {
+      const result = sanitizeString(
+        '<a href="java&#9;script:alert(1)">x</a><img src="https://tracker.com/p.gif" alt="p">',
+        { ...ADMIN_CONFIG, urlPolicy: { allowedImageHosts: ['cdn.example.com'] } }
+      );
+      expect(result.data).toBe('<a>x</a><img alt="p">');
+      expect(result.warnings).toEqual([
+        expect.stringContaining("protocol 'javascript:' is not allowed"),
+        expect.stringContaining("image host 'tracker.com' is not allowed"),
+      ]);
+    });
+
+    it('keeps URLs that pass the policy', () => {
+      const result = sanitizeString('<a href="/posts/1">x</a>', { ...BLOG_CONFIG, urlPolicy: { relativeOnly: true } });
+      expect(result.data).toBe('<a href="/posts/1">x</a>');
+    });
+
+    it('checks plain URL fields in objects', () => {
+      const result = sanitizeRequestData(
+        { website: ' javascript:alert(1)', avatar: 'https://example.com/a.png', bio: 'https://x.y' },
+        { ...BASE_CONFIG, urlPolicy: { urlFields: ['website', 'avatar'] } }
+      );
+      expect(result.data).toEqual({ website: '', avatar: 'https://example.com/a.png', bio: 'https://x.y' });
+      expect(result.warnings).toEqual([expect.stringContaining("Blocked URL in field 'website'")]);
+    });
+
+    it('blocks URL fields that could break out of an attribute', () => {
+      const result = sanitizeRequestData(
+        { website: 'https://x.com/"><script>alert(1)</script>', avatar: 'https://x.com/a?b=1&c=%22' },
+        { ...BASE_CONFIG, urlPolicy: { urlFields: ['website', 'avatar'] } }
+      );
+      expect(result.data).toEqual({ website: '', avatar: 'https://x.com/a?b=1&c=%22' });
+      expect(result.warnings).toEqual([
+        "Blocked URL in field 'website': URL contains characters that must be percent-encoded",
+      ]);
+    });
+  });
+
+  describe('link policy', () => {
+    it('forces noopener noreferrer nofollow ugc on target="_blank" links', () => {
+      const result = sanitizeString('<a href="https://x.com" target="_blank">x</a>', LIBERAL_CONFIG);
+      expect(result.data).toBe('<a href="https://x.com" target="_blank" rel="noopener noreferrer nofollow ugc">x</a>');
+    });
+
+    it('keeps existing rel tokens when adding required ones', () => {
+      const result = sanitizeString('<a href="/a" target="_blank" rel="author">x</a>', LIBERAL_CONFIG);
+      expect(result.data).toContain('rel="author noopener noreferrer nofollow ugc"');
+    });
+
+    it('adds nofollow ugc to user-generated links in the comment profile', () => {
+      expect(sanitizeString('<a href="https://x.com">x</a>', COMMENT_CONFIG).data)
+        .toBe('<a href="https://x.com" rel="nofollow ugc">x</a>');
+      expect(sanitizeString('<a href="https://x.com">x</a>', BASE_CONFIG).sanitized).toBe(false);
+    });
+
+    it('opens external links in a new tab and rewrites them through a redirect', () => {
+      const config = {
+        ...LIBERAL_CONFIG,
+        linkPolicy: { externalTarget: '_blank', internalHosts: ['example.com', '*.example.com'], redirectPrefix: '/out?url=' },
+      };
+      const result = sanitizeString(
+        '<a href="https://docs.example.com/a">in</a><a href="https://other.com/?a=1&amp;b=2">out</a><a href="/local">rel</a>',
+        config
+      );
+      expect(result.data).toBe(
+        '<a href="https://docs.example.com/a">in</a>' +
+        '<a href="/out?url=https%3A%2F%2Fother.com%2F%3Fa%3D1%26b%3D2" target="_blank" rel="noopener noreferrer nofollow ugc">out</a>' +
+        '<a href="/local">rel</a>'
+      );
+    });
+  });
+
+  describe('change report', () => {
+    it('tells a stray tag apart from a removed event handler', () => {
+      const result = sanitizeRequestData(
+        { stray: '<font>x</font>', handler: '<img src="/a.png" onerror="steal()">' },
+        LIBERAL_CONFIG
+      );
+      expect(result.changes).toEqual([
+        expect.objectContaining({ field: 'stray', rules: ['tag-removed'], removedTags: ['font'] }),
+        expect.objectContaining({
+          field: 'handler',
+          rules: ['event-handler-removed'],
+          removedAttributes: [{ tag: 'img', attribute: 'onerror' }],
+        }),
+      ]);
+    });
+
+    it('records tags at the start of the input', () => {
+      const result = sanitizeRequestData({ text: '<script>x()</script>Hi', marker: '<remove>a</remove>' }, BLOG_CONFIG);
+      expect(result.data).toEqual({ text: 'Hi', marker: 'a' });
+      expect(result.changes).toEqual([
+        expect.objectContaining({ field: 'text', rules: ['dangerous-tag-removed'], removedTags: ['script'] }),
+        expect.objectContaining({ field: 'marker', rules: ['tag-removed'], removedTags: ['remove'] }),
+      ]);
+    });
+
+    it('records dangerous tags, blocked URLs and lengths', () => {
+      const input = '<a href="javascript:x()">a</a><script>x()</script>';
+      const result = sanitizeRequestData({ body: input }, BLOG_CONFIG);
+      expect(result.changes).toEqual([
+        {
+          field: 'body',
+          rules: ['url-blocked', 'dangerous-tag-removed'],
+          removedTags: ['script'],
+          removedAttributes: [],
+          blockedUrls: [{ url: 'javascript:x()', reason: "protocol 'javascript:' is not allowed" }],
+          removedStyles: [],
+          changedAttributes: [],
+          originalLength: input.length,
+          finalLength: '<a>a</a>'.length,
+        },
+      ]);
+    });
+
+    it('records truncation, rewritten links and pattern mismatches', () => {
+      const result = sanitizeRequestData(
+        { long: 'x'.repeat(41), link: '<a href="https://x.com">x</a>', slug: 'Bad Slug' },
+        { ...COMMENT_CONFIG, maxStringLength: 40 },
+        { schema: { slug: /^[a-z-]+$/ } }
+      );
+      expect(result.changes.map(change => [change.field, change.rules])).toEqual([
+        ['long', ['truncated']],
+        ['link', ['link-rewritten']],
+        ['slug', ['pattern-mismatch']],
+      ]);
+    });
+
+    it('marks output that was only re-serialized as normalized', () => {
+      const result = sanitizeRequestData({ text: '<b>Tom & Jerry</b>' }, BLOG_CONFIG);
+      expect(result.changes).toEqual([expect.objectContaining({ field: 'text', rules: ['normalized'] })]);
+    });
+
+    it('omits fields that did not change', () => {
+      const result = sanitizeRequestData({ text: '<b>ok</b>' }, BLOG_CONFIG);
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe('limits', () => {
+    const expectLimitError = (run: () => unknown, limit: string, path: string) => {
+      try {
+        run();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SanitizationLimitError);
+        expect(error).toMatchObject({ limit, path, field: path, status: 400 });
+        expect((error as Error).message).toContain(`'${path}'`);
+        return;
+      }
+      throw new Error('Expected a SanitizationLimitError');
+    };
+
+    it('rejects circular references instead of overflowing', () => {
+      const data: any = { user: { name: 'a' } };
+      data.user.self = data;
+      expectLimitError(() => sanitizeRequestData(data, BASE_CONFIG), 'circular', 'user.self');
+    });
+
+    it('allows the same object in several places', () => {
+      const shared = { name: '<b>a</b>' };
+      const result = sanitizeRequestData({ a: shared, b: [shared] }, BASE_CONFIG);
+      expect(result.data).toEqual({ a: { name: '<b>a</b>' }, b: [{ name: '<b>a</b>' }] });
+    });
+
+    it('limits nesting depth', () => {
+      let data: any = { value: 'x' };
+      for (let level = 0; level < 40; level++) data = { child: data };
+      expectLimitError(
+        () => sanitizeRequestData(data, BASE_CONFIG),
+        'maxDepth',
+        Array(32).fill('child').join('.')
+      );
+      expect(() => sanitizeRequestData({ a: { b: 'x' } }, { ...BASE_CONFIG, limits: { maxDepth: 2 } })).not.toThrow();
+      expectLimitError(
+        () => sanitizeRequestData({ a: { b: { c: 'x' } } }, { ...BASE_CONFIG, limits: { maxDepth: 2 } }),
+        'maxDepth',
+        'a.b'
+      );
+    });
+
+    it('limits array length and total key count', () => {
+      const limits = { maxArrayLength: 3, maxKeys: 4 };
+      expectLimitError(
+        () => sanitizeRequestData({ tags: ['a', 'b', 'c', 'd'] }, { ...BASE_CONFIG, limits }),
+        'maxArrayLength',
+        'tags'
+      );
+      expectLimitError(
+        () => sanitizeRequestData({ a: { b: 1, c: 2 }, d: { e: 3 } }, { ...BASE_CONFIG, limits }),
+        'maxKeys',
+        'd'
+      );
+    });
+
+    it('limits total string bytes', () => {
+      const limits = { maxTotalStringBytes: 10 };
+      expectLimitError(
+        () => sanitizeRequestData({ a: 'éééé', b: 'xxx' }, { ...BASE_CONFIG, limits }),
+        'maxTotalStringBytes',
+        'b'
+      );
+    });
+
+    it('applies to sanitizeString', () => {
+      expectLimitError(
+        () => sanitizeString('x'.repeat(20), { ...BASE_CONFIG, limits: { maxTotalStringBytes: 10 } }),
+        'maxTotalStringBytes',
+        'root'
+      );
+    });
+  });
+
+  describe('key policy', () => {
+    it('drops prototype-polluting keys by default and reports them', () => {
+      const data = JSON.parse('{"__proto__":{"isAdmin":true},"user":{"constructor":{"prototype":{"x":1}},"name":"a"}}');
+      const result = sanitizeRequestData(data, BASE_CONFIG);
+
+      expect(result.data).toEqual({ user: { name: 'a' } });
+      expect((result.data as any).isAdmin).toBeUndefined();
+      expect(Object.getPrototypeOf(result.data)).toBe(Object.prototype);
+      expect(result.sanitized).toBe(true);
+      expect(result.droppedKeys).toEqual([
+        { field: '__proto__', key: '__proto__', reason: 'dangerous' },
+        { field: 'user.constructor', key: 'constructor', reason: 'dangerous' },
+      ]);
+      expect(result.warnings).toContain("Dropped dangerous key '__proto__'");
+    });
+
+    it('rejects prototype-polluting keys when configured', () => {
+      const data = JSON.parse('{"a":{"__proto__":{"x":1}}}');
+      expect(() => sanitizeRequestData(data, { ...BASE_CONFIG, keyPolicy: { dangerousKeys: 'reject' } }))
+        .toThrow(SanitizationRejectedError);
+    });
+
+    it('builds null-prototype objects when configured', () => {
+      const result = sanitizeRequestData({ a: { b: 'x' } }, { ...BASE_CONFIG, keyPolicy: { nullPrototype: true } });
+      expect(Object.getPrototypeOf(result.data)).toBeNull();
+      expect(Object.getPrototypeOf(result.data.a)).toBeNull();
+      expect(result.data.a.b).toBe('x');
+    });
+
+    it('applies key allowlists and denylists', () => {
+      const keyPolicy = { allowedKeys: ['title', 'author', 'author.name', 'internal'], deniedKeys: ['internal'] };
+      const result = sanitizeRequestData(
+        { title: 't', extra: 'e', internal: 'i', author: { name: 'n', role: 'admin' } },
+        { ...BASE_CONFIG, keyPolicy }
+      );
+
+      expect(result.data).toEqual({ title: 't', author: { name: 'n' } });
+      expect(result.droppedKeys).toEqual([
+        { field: 'extra', key: 'extra', reason: 'not-allowed' },
+        { field: 'internal', key: 'internal', reason: 'denied' },
+        { field: 'author.role', key: 'role', reason: 'not-allowed' },
+      ]);
+    });
+
+    it('strips HTML from key names when enabled', () => {
+      const result = sanitizeRequestData(
+        { '<b>name</b>': 'a', '<img src=x onerror=alert(1)>': 'b', '"title"': 'c', title: 'd', '<i>__proto__</i>': {} },
+        { ...BASE_CONFIG, keyPolicy: { sanitizeKeys: true } }
+      );
+
+      expect(result.data).toEqual({ name: 'a', title: 'd' });
+      expect(result.fieldsModified).toEqual(['<b>name</b>']);
+      expect(result.changes).toEqual([expect.objectContaining({ field: '<b>name</b>', rules: ['key-sanitized'] })]);
+      expect(result.droppedKeys.map(({ key, reason }) => [key, reason])).toEqual([
+        ['<img src=x onerror=alert(1)>', 'empty'],
+        ['"title"', 'duplicate'],
+        ['<i>__proto__</i>', 'dangerous'],
+      ]);
+    });
+  });
+
+  describe('typed values', () => {
+    const XSS = '<script>x()</script>ok';
+
+    afterEach(() => resetTypeHandlers());
+
+    it('passes dates, regular expressions, buffers and typed arrays through', () => {
+      const data = {
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        pattern: /<b>/g,
+        file: Buffer.from('<script>'),
+        bytes: new Uint8Array([1, 2, 3]),
+        raw: new ArrayBuffer(4),
+      };
+      const result = sanitizeRequestData(data, BASE_CONFIG);
+
+      expect(result.data.createdAt).toBe(data.createdAt);
+      expect(result.data.pattern).toBe(data.pattern);
+      expect(Buffer.isBuffer(result.data.file)).toBe(true);
+      expect(result.data.file.toString()).toBe('<script>');
+      expect(result.data.bytes).toBe(data.bytes);
+      expect(result.data.raw).toBe(data.raw);
+      expect(result.sanitized).toBe(false);
+    });
+
+    it('sanitizes Map and Set values', () => {
+      const result = sanitizeRequestData(
+        { labels: new Map([['title', XSS]]), tags: new Set([XSS, 'plain']) },
+        BASE_CONFIG
+      );
+
+      expect(result.data.labels).toEqual(new Map([['title', 'ok']]));
+      expect(result.data.tags).toEqual(new Set(['ok', 'plain']));
+      expect(result.fieldsModified).toEqual(['labels.title', 'tags[0]']);
+    });
+
+    it('keeps the prototype of class instances', () => {
+      class Comment {
+        constructor(public text: string) {}
+        preview() {
+          return this.text.slice(0, 2);
+        }
+      }
+      const result = sanitizeRequestData({ comment: new Comment(XSS) }, BASE_CONFIG);
+
+      expect(result.data.comment).toBeInstanceOf(Comment);
+      expect(result.data.comment.text).toBe('ok');
+      expect(result.data.comment.preview()).toBe('ok');
+      expect(result.fieldsModified).toEqual(['comment.text']);
+    });
+
+    it('passes URLs through unchanged', () => {
+      const url = new URL('https://example.com/?q=<b>');
+      const result = sanitizeRequestData({ url }, BASE_CONFIG);
+
+      expect(result.data.url).toBe(url);
+      expect(url.href).toBe('https://example.com/?q=%3Cb%3E');
+    });
+
+    it('uses custom type handlers, per call before registered ones', () => {
+      class Money {
+        constructor(public amount: number, public currency: string) {}
+      }
+      const money = new Money(5, '<b>EUR</b>');
+      registerTypeHandler({ name: 'money', test: value => value instanceof Money, sanitize: () => 'registered' });
+
+      expect(sanitizeRequestData({ price: money }, BASE_CONFIG).data.price).toBe('registered');
+
+      const result = sanitizeRequestData({ price: money }, { ...BASE_CONFIG, allowedTags: [] }, {
+        typeHandlers: [{
+          name: 'money',
+          test: value => value instanceof Money,
+          sanitize: (value: Money, { field, sanitize }) =>
+            new Money(value.amount, sanitize(value.currency, `${field}.currency`) as string),
+        }],
+      });
+      expect(result.data.price).toEqual(new Money(5, 'EUR'));
+      expect(result.fieldsModified).toEqual(['price.currency']);
+    });
+
+    it('detects cycles through Maps', () => {
+      const labels = new Map<string, unknown>();
+      labels.set('self', labels);
+      expect(() => sanitizeRequestData({ labels }, BASE_CONFIG)).toThrow(SanitizationLimitError);
+    });
+  });
+
+  describe('createSanitizer', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('keeps metadata per call', () => {
+      const sanitizer = createSanitizer(BLOG_CONFIG);
+      const dirty = sanitizer.sanitize({ title: '<script>x()</script>a' });
+      const clean = sanitizer.sanitize({ title: 'a' });
+
+      expect(dirty).toMatchObject({ sanitized: true, fieldsModified: ['title'] });
+      expect(clean).toEqual({
+        data: { title: 'a' },
+        sanitized: false,
+        warnings: [],
+        errors: undefined,
+        fieldsModified: [],
+        changes: [],
+        droppedKeys: [],
+      });
+      expect(sanitizer.sanitizeString('<b>a</b><i>b</i>').data).toBe('<b>a</b><i>b</i>');
+    });
+
+    it('skips DOMPurify for strings that cannot contain markup', () => {
+      const spy = jest.spyOn(DOMPurify, 'sanitize');
+      const sanitizer = createSanitizer(BLOG_CONFIG);
+
+      const result = sanitizer.sanitize({ a: 'plain "quoted" text', b: 'Tom & Jerry', c: 'a > b' });
+      expect(result.sanitized).toBe(false);
+      expect(result.data).toEqual({ a: 'plain "quoted" text', b: 'Tom & Jerry', c: 'a > b' });
+      expect(spy).not.toHaveBeenCalled();
+
+      expect(sanitizer.sanitizeString('Tom & <b>Jerry</b>').data).toBe('Tom &amp; <b>Jerry</b>');
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('reuses cached outcomes for repeated strings with per-field reports', () => {
+      const spy = jest.spyOn(DOMPurify, 'sanitize');
+      const sanitizer = createSanitizer(BLOG_CONFIG, { cacheSize: 10 });
+      const dirty = '<a href="javascript:x()">a</a>';
+
+      const result = sanitizer.sanitize({ first: dirty, second: dirty });
+      const again = sanitizer.sanitize({ third: dirty });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(result.data).toEqual({ first: '<a>a</a>', second: '<a>a</a>' });
+      expect(result.changes.map(change => [change.field, change.rules])).toEqual([
+        ['first', ['url-blocked']],
+        ['second', ['url-blocked']],
+      ]);
+      expect(again.warnings).toEqual([
+        "Blocked URL in field 'third' (<a href>): protocol 'javascript:' is not allowed",
+      ]);
+      expect(again.changes[0].blockedUrls).toHaveLength(1);
+    });
+
+    it('does not cache long strings', () => {
+      const spy = jest.spyOn(DOMPurify, 'sanitize');
+      const sanitizer = createSanitizer(BLOG_CONFIG, { cacheSize: 10 });
+      const long = `<p>${'x'.repeat(5000)}</p>`;
+
+      sanitizer.sanitize({ first: long, second: long });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { sanitizeUrl, isUrlAttribute } from '../src/utils/urlPolicy';
+
+describe('sanitizeUrl', () => {
+  it('allows http, https, mailto and tel by default', () => {
+    expect(sanitizeUrl('https://example.com/a?b=1').url).toBe('https://example.com/a?b=1');
+    expect(sanitizeUrl('mailto:me@example.com').url).toBe('mailto:me@example.com');
+    expect(sanitizeUrl('tel:+123').url).toBe('tel:+123');
+  });
+
+  it('blocks javascript and data URLs by default', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toEqual({ url: null, reason: "protocol 'javascript:' is not allowed" });
+    expect(sanitizeUrl('data:text/html,<script>x</script>').url).toBeNull();
+  });
+
+  it('sees through obfuscated schemes', () => {
+    expect(sanitizeUrl('&#106;avascript:alert(1)').url).toBeNull();
+    expect(sanitizeUrl('&#x6A;avascript&colon;alert(1)').url).toBeNull();
+    expect(sanitizeUrl('java\tscript:alert(1)').url).toBeNull();
+    expect(sanitizeUrl(' \u0000javascript:alert(1)').url).toBeNull();
+    expect(sanitizeUrl('JaVaScRiPt:alert(1)').url).toBeNull();
+  });
+
+  it('trims surrounding whitespace from allowed URLs', () => {
+    expect(sanitizeUrl('  https://example.com/\n').url).toBe('https://example.com/');
+  });
+
+  it('allows relative URLs unless disabled', () => {
+    expect(sanitizeUrl('/posts/1').url).toBe('/posts/1');
+    expect(sanitizeUrl('#top').url).toBe('#top');
+    expect(sanitizeUrl('/posts/1', { allowRelative: false }).url).toBeNull();
+  });
+
+  it('only accepts relative URLs in relative-only mode', () => {
+    const policy = { relativeOnly: true };
+    expect(sanitizeUrl('/posts/1', policy).url).toBe('/posts/1');
+    expect(sanitizeUrl('https://example.com', policy).url).toBeNull();
+    expect(sanitizeUrl('//evil.com/x', policy).url).toBeNull();
+    expect(sanitizeUrl('/\\evil.com/x', policy).url).toBeNull();
+  });
+
+  it('respects custom protocol lists', () => {
+    expect(sanitizeUrl('ftp://files.example.com', { allowedProtocols: ['ftp'] }).url).toBe('ftp://files.example.com');
+    expect(sanitizeUrl('https://example.com', { allowedProtocols: ['ftp'] }).url).toBeNull();
+  });
+
+  it('applies image host policies to images only', () => {
+    const policy = { allowedImageHosts: ['cdn.example.com', '*.images.example.com'], blockedImageHosts: ['bad.images.example.com'] };
+    expect(sanitizeUrl('https://cdn.example.com/a.png', policy, 'image').url).toBe('https://cdn.example.com/a.png');
+    expect(sanitizeUrl('https://eu.images.example.com/a.png', policy, 'image').url).not.toBeNull();
+    expect(sanitizeUrl('https://bad.images.example.com/a.png', policy, 'image').reason).toBe("image host 'bad.images.example.com' is blocked");
+    expect(sanitizeUrl('//tracker.com/pixel.gif', policy, 'image').reason).toBe("image host 'tracker.com' is not allowed");
+    expect(sanitizeUrl('https://tracker.com/', policy, 'link').url).toBe('https://tracker.com/');
+  });
+
+  it('recognises URL attributes', () => {
+    expect(isUrlAttribute('href')).toBe(true);
+    expect(isUrlAttribute('SRC')).toBe(true);
+    expect(isUrlAttribute('title')).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { join } from 'path';
+import { createSanitizer, sanitizeRequestData, sanitizeRequestDataAsync } from '../src/utils/sanitizer';
+import { sanitizeJsonStream } from '../src/utils/jsonStream';
+import { createPurifyPool, PurifyPool } from '../src/utils/workerPool';
+import { sanitizeRequest } from '../src/middleware/sanitizeRequest';
+import { LIBERAL_CONFIG } from '../src/config/sanitizationConfigs';
+import { SanitizationLogger } from '../src/types/logging';
+
+jest.setTimeout(30000);
+
+// Workers cannot load TypeScript on their own, so the test worker compiles the sources on require
+const scriptDir = mkdtempSync(join(tmpdir(), 'sanitize-worker-'));
+const workerScript = join(scriptDir, 'purifyWorker.js');
+writeFileSync(workerScript, `
+const fs = require('fs');
+const ts = require(${JSON.stringify(require.resolve('typescript'))});
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  });
+  module._compile(outputText, filename);
+};
+require(${JSON.stringify(join(__dirname, '../src/utils/purifyWorker.ts'))});
+`);
+const failingScript = join(scriptDir, 'failingWorker.js');
+writeFileSync(failingScript, `throw new Error('worker failed to start');`);
+const hangingScript = join(scriptDir, 'hangingWorker.js');
+writeFileSync(hangingScript, `require('worker_threads').parentPort.on('message', () => {});`);
+
+const config = { ...LIBERAL_CONFIG, limits: { maxTotalStringBytes: 10 * 1024 * 1024 } };
+
+const largeHtml = (index: number) =>
+  `<p>Post ${index}</p>`.repeat(200) +
+  '<img src="javascript:alert(1)"><script>alert(1)</script><a href="https://example.com">link</a>';
+
+const createBody = () => ({
+  title: 'Short <b>title</b>',
+  posts: [largeHtml(1), largeHtml(2)],
+  content: largeHtml(3),
+});
+
+const createTestLogger = (): SanitizationLogger => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe('createPurifyPool', () => {
+  const poolLogger = createTestLogger();
+  let pool: PurifyPool;
+
+  beforeAll(() => {
+    pool = createPurifyPool({ size: 1, threshold: 1000, workerScript, logger: poolLogger });
+  });
+
+  afterAll(async () => {
+    await pool.close();
+    rmSync(scriptDir, { recursive: true, force: true });
+  });
+
+  it('purifies large strings on workers with the same result as inline', async () => {
+    const purify = jest.spyOn(pool, 'purify');
+    const body = createBody();
+
+    const result = await createSanitizer(config).sanitizeAsync(body, { workerPool: pool });
+
+    expect(result).toEqual(sanitizeRequestData(body, config));
+    expect(result.warnings.some(warning => warning.includes('Blocked URL'))).toBe(true);
+    // The short title stays inline
+    expect(purify).toHaveBeenCalledTimes(3);
+    expect(poolLogger.error).not.toHaveBeenCalled();
+    purify.mockRestore();
+  });
+
+  it('is used by sanitizeRequestDataAsync and sanitizeJsonStream', async () => {
+    const purify = jest.spyOn(pool, 'purify');
+    const body = createBody();
+
+    await expect(sanitizeRequestDataAsync(body, config, { workerPool: pool }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+    expect(purify).toHaveBeenCalledTimes(3);
+
+    const records = sanitizeJsonStream(Readable.from([`${JSON.stringify(body)}\n`]), config, { workerPool: pool });
+    for await (const record of records) {
+      expect(record).toEqual(sanitizeRequestData(body, config).data);
+    }
+    expect(purify).toHaveBeenCalledTimes(6);
+    purify.mockRestore();
+  });
+
+  it('purifies inline when the queue is full', async () => {
+    const fullPool = createPurifyPool({ size: 1, threshold: 1000, queueLimit: 0, workerScript });
+    const body = createBody();
+
+    await expect(createSanitizer(config).sanitizeAsync(body, { workerPool: fullPool }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+    await fullPool.close();
+  });
+
+  it('falls back to inline purification when a worker fails', async () => {
+    const logger = createTestLogger();
+    const failingPool = createPurifyPool({ size: 1, threshold: 1000, workerScript: failingScript, logger });
+    const body = createBody();
+
+    await expect(createSanitizer(config).sanitizeAsync(body, { workerPool: failingPool }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('worker failed to start'),
+      expect.objectContaining({ event: 'worker-failed' })
+    );
+    await failingPool.close();
+  });
+
+  it('rejects jobs whose policy cannot be sent and keeps the worker', async () => {
+    const logger = createTestLogger();
+    const sendPool = createPurifyPool({ size: 1, threshold: 1000, workerScript, logger });
+    const body = createBody();
+
+    await expect(sendPool.purify('<p>x</p>', { ...config, onError: () => undefined } as any)).rejects.toThrow();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Could not send a string to a sanitizer worker'),
+      { event: 'worker-failed' }
+    );
+    await expect(createSanitizer(config).sanitizeAsync(body, { workerPool: sendPool }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+    await sendPool.close();
+  });
+
+  it('replaces a worker that does not respond in time', async () => {
+    const logger = createTestLogger();
+    const hangingPool = createPurifyPool({ size: 1, threshold: 1000, jobTimeoutMs: 100, workerScript: hangingScript, logger });
+    const body = createBody();
+
+    await expect(createSanitizer(config).sanitizeAsync(body, { workerPool: hangingPool }))
+      .resolves.toEqual(sanitizeRequestData(body, config));
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Worker did not respond within 100ms'),
+      expect.objectContaining({ event: 'worker-failed' })
+    );
+    await hangingPool.close();
+  });
+
+  it('is used by sanitizeRequest when passed as workerPool', async () => {
+    const req: any = { method: 'POST', path: '/posts', body: createBody() };
+    const expected = sanitizeRequestData(createBody(), config).data;
+
+    await new Promise<void>((resolve, reject) => {
+      sanitizeRequest({ config, workerPool: pool })(req, {} as any, (error?: unknown) => error ? reject(error) : resolve());
+    });
+
+    expect(req.body).toEqual(expected);
+    expect(req._sanitization.fieldsModified).toEqual(expect.arrayContaining(['body.posts[0]', 'body.content']));
+  });
+
+  it('passes errors thrown by the next handler to next', async () => {
+    const req: any = { method: 'POST', path: '/posts', body: createBody() };
+    const failure = new Error('handler failed');
+
+    const error = await new Promise(resolve => {
+      const next = jest.fn((error?: unknown) => {
+        if (error) return resolve(error);
+        throw failure;
+      });
+      sanitizeRequest({ config, workerPool: pool })(req, {} as any, next);
+    });
+
+    expect(error).toBe(failure);
+  });
+});
@@ -1,6 +0,0 @@
-export const logger = {
-  debug: console.debug,
-  error: console.error,
-  info: console.info,
-  warn: console.warn
-};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { RequestLike, RequestSanitizationOutcome, SanitizeRequestOptions } from '../types/request';
+import { SanitizationTarget } from '../types/sanitization';
+import { assignRequestValue, createAsyncRequestSanitizer, createRequestSanitizer } from '../utils/requestSanitizer';
+
+// Structural types so the package does not depend on fastify
+interface FastifyRequestLike extends RequestLike {
+  [key: string]: unknown;
+}
+
+type PreValidationHook = (request: FastifyRequestLike, reply: unknown, done: (error?: Error) => void) => void;
+
+interface FastifyInstanceLike {
+  addHook: (name: 'preValidation', hook: PreValidationHook) => unknown;
+}
+
+type FastifyPlugin = (
+  fastify: FastifyInstanceLike,
+  options: SanitizeRequestOptions<FastifyRequestLike>,
+  done: (error?: Error) => void
+) => void;
+
+export const createFastifyHook = (options: SanitizeRequestOptions<FastifyRequestLike> = {}): PreValidationHook => {
+  const apply = (
+    request: FastifyRequestLike,
+    done: (error?: Error) => void,
+    { values, metadata, error }: RequestSanitizationOutcome
+  ) => {
+    for (const [target, value] of Object.entries(values) as Array<[SanitizationTarget, unknown]>) {
+      assignRequestValue(request, target, value);
+    }
+    if (metadata) {
+      request._sanitization = metadata;
+    }
+
+    done(error);
+  };
+
+  if (options.workerPool) {
+    const sanitizeAsync = createAsyncRequestSanitizer(options);
+    return (request, reply, done) => {
+      sanitizeAsync(request).then(outcome => apply(request, done, outcome)).catch(done);
+    };
+  }
+
+  const sanitize = createRequestSanitizer(options);
+  return (request, reply, done) => apply(request, done, sanitize(request));
+};
+
+/**
+ * Fastify plugin registering a preValidation hook, so schema validation runs on sanitized input.
+ * Usage: `fastify.register(fastifySanitizeRequest, { config: 'blog', targets: ['body', 'query'] })`
+ */
+export const fastifySanitizeRequest: FastifyPlugin = (fastify, options, done) => {
+  fastify.addHook('preValidation', createFastifyHook(options));
+  done();
+};
+
+// Same effect as wrapping with fastify-plugin: the hook applies outside the plugin's encapsulation context
+Object.defineProperty(fastifySanitizeRequest, Symbol.for('skip-override'), { value: true });
@@ -0,0 +1,49 @@
+import { RequestLike, SanitizeRequestOptions } from '../types/request';
+import { createAsyncRequestSanitizer, createRequestSanitizer } from '../utils/requestSanitizer';
+
+// Structural types so the package does not depend on koa
+interface KoaContextLike {
+  method: string;
+  path: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: unknown;
+  params?: unknown;
+  request: { body?: unknown; headers: Record<string, string | string[] | undefined> };
+  state: Record<string, unknown>;
+}
+
+const toRequestLike = (ctx: KoaContextLike): RequestLike => ({
+  method: ctx.method,
+  path: ctx.path,
+  url: ctx.url,
+  headers: ctx.headers,
+  body: ctx.request.body,
+  query: ctx.query,
+  params: ctx.params,
+});
+
+/**
+ * Koa middleware. Reads the body set by a body parser and params set by a router;
+ * metadata is exposed as `ctx.state.sanitization` and errors are thrown to upstream handlers.
+ */
+export const koaSanitizeRequest = (options: SanitizeRequestOptions<RequestLike> = {}) => {
+  // With a worker pool the async core runs, which the handler awaits either way
+  const sanitize = options.workerPool ? createAsyncRequestSanitizer(options) : createRequestSanitizer(options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    const { values, metadata, error } = await sanitize(toRequestLike(ctx));
+    if (error) throw error;
+
+    if ('body' in values) ctx.request.body = values.body;
+    if ('query' in values) ctx.query = values.query;
+    if ('params' in values) ctx.params = values.params;
+    // ctx.headers is a getter, only the request exposes a setter
+    if ('headers' in values) ctx.request.headers = values.headers as KoaContextLike['headers'];
+    if (metadata) {
+      ctx.state.sanitization = metadata;
+    }
+
+    await next();
+  };
+};
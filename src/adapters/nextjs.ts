@@ -0,0 +1,83 @@
+import { RequestLike, SanitizeRequestOptions } from '../types/request';
+import { RequestSanitizationMetadata } from '../types/sanitization';
+import { SanitizationRejectedError, SanitizationValidationError } from '../utils/sanitizer';
+import { createAsyncRequestSanitizer, createRequestSanitizer } from '../utils/requestSanitizer';
+
+export interface SanitizedRouteRequest {
+  body: unknown;
+  query: Record<string, string>;
+  params: unknown;
+  metadata?: RequestSanitizationMetadata;
+}
+
+// Next.js 15 passes params as a promise, earlier versions as a plain object
+interface RouteContextLike {
+  params?: unknown;
+}
+
+type RouteHandler<TContext> = (
+  req: Request,
+  context: TContext & { sanitized: SanitizedRouteRequest }
+) => Response | Promise<Response>;
+
+// Request bodies are streams that can be read once, so the handler still gets an unread request
+const readJsonBody = async (req: Request): Promise<unknown> => {
+  if (!req.headers.get('content-type')?.includes('json')) return undefined;
+  try {
+    return await req.clone().json();
+  } catch {
+    return undefined;
+  }
+};
+
+const readHeaders = (headers: Headers): Record<string, string> => {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+};
+
+const errorResponse = (error: Error): Response => {
+  const status = (error as { status?: number }).status ?? 500;
+  const body = error instanceof SanitizationRejectedError || error instanceof SanitizationValidationError
+    ? error.toJSON()
+    : { error: error.message };
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+};
+
+/**
+ * Wraps an App Router route handler. The sanitized body, query and params are passed as
+ * `context.sanitized`; the original request is left untouched.
+ */
+export const withSanitizedRequest = <TContext extends RouteContextLike = RouteContextLike>(
+  handler: RouteHandler<TContext>,
+  options: SanitizeRequestOptions<RequestLike> = {}
+) => {
+  // With a worker pool the async core runs, which the handler awaits either way
+  const sanitize = options.workerPool ? createAsyncRequestSanitizer(options) : createRequestSanitizer(options);
+
+  return async (req: Request, context: TContext = {} as TContext): Promise<Response> => {
+    const url = new URL(req.url);
+    const request: RequestLike = {
+      method: req.method,
+      path: url.pathname,
+      url: req.url,
+      headers: readHeaders(req.headers),
+      body: await readJsonBody(req),
+      query: Object.fromEntries(url.searchParams.entries()),
+      params: await context.params,
+    };
+
+    const { values, metadata, error } = await sanitize(request);
+    if (error) return errorResponse(error);
+
+    const sanitized: SanitizedRouteRequest = {
+      body: 'body' in values ? values.body : request.body,
+      query: ('query' in values ? values.query : request.query) as Record<string, string>,
+      params: 'params' in values ? values.params : request.params,
+      metadata,
+    };
+    return handler(req, { ...context, sanitized });
+  };
+};
@@ -0,0 +1,48 @@
+import { IncomingMessage } from 'http';
+import { RequestLike, RequestSanitizationOutcome, SanitizedRequest, SanitizeRequestOptions } from '../types/request';
+import { SanitizationTarget } from '../types/sanitization';
+import { assignRequestValue, createRequestSanitizer } from '../utils/requestSanitizer';
+
+type SanitizableIncomingMessage = IncomingMessage & SanitizedRequest & { body?: unknown; query?: unknown; cookies?: unknown };
+
+// Sanitizes synchronously, so a worker pool is not supported; use createAsyncRequestSanitizer for that
+type IncomingMessageOptions = Omit<SanitizeRequestOptions<RequestLike>, 'workerPool'>;
+
+/**
+ * Creates a sanitizer for plain Node.js requests, compiling the options once. The query is parsed
+ * from `req.url` unless already set, and the body is read from `req.body` as left by whatever
+ * parsed it. Sanitized values and `_sanitization` are written back to the request; the returned
+ * outcome carries the error, if any.
+ */
+export const createIncomingMessageSanitizer = (options: IncomingMessageOptions = {}) => {
+  const sanitize = createRequestSanitizer(options);
+
+  return (req: SanitizableIncomingMessage): RequestSanitizationOutcome => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const request: RequestLike = {
+      method: req.method,
+      path: url.pathname,
+      url: req.url,
+      headers: req.headers,
+      body: req.body,
+      query: req.query ?? Object.fromEntries(url.searchParams.entries()),
+      cookies: req.cookies,
+    };
+
+    const outcome = sanitize(request);
+    for (const [target, value] of Object.entries(outcome.values) as Array<[SanitizationTarget, unknown]>) {
+      assignRequestValue(req, target, value);
+    }
+    if (outcome.metadata) {
+      req._sanitization = outcome.metadata;
+    }
+
+    return outcome;
+  };
+};
+
+// Compiles the options on every call; create the sanitizer once with createIncomingMessageSanitizer in a server
+export const sanitizeIncomingMessage = (
+  req: SanitizableIncomingMessage,
+  options: IncomingMessageOptions = {}
+): RequestSanitizationOutcome => createIncomingMessageSanitizer(options)(req);
@@ -0,0 +1,210 @@
+import { FSWatcher, readFileSync, watch } from 'fs';
+import { createRequire } from 'module';
+import { basename, dirname, resolve } from 'path';
+import type * as Yaml from 'yaml';
+import { ConfigIssue, ConfigOverrides, SanitizationConfig } from '../types/sanitization';
+import { LoadPolicyOptions, PolicyRoute, PolicySnapshot, SanitizationPolicy } from '../types/policy';
+import { SanitizationLogger } from '../types/logging';
+import { validateJsonSchema } from '../utils/jsonSchema';
+import { deepFreeze } from '../utils/freeze';
+import { createLogger } from '../utils/logger';
+import { compileRoutePattern } from '../utils/routeMatcher';
+import { POLICY_SCHEMA } from './policySchema';
+import { createCustomConfig, getConfig, isConfigName } from './sanitizationConfigs';
+import { ConfigValidationError, validateConfig } from './validateConfig';
+
+type ProfileDefinition = ConfigOverrides & { extends?: string };
+
+interface PolicyDocument {
+  defaultProfile?: string;
+  profiles?: Record<string, ProfileDefinition>;
+  routes?: PolicyRoute[];
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+const hasOwn = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+
+// yaml is an optional peer dependency, only needed for YAML policies. createRequire works in the
+// ESM build too, where a bare require is not defined and __filename comes from the tsup shims.
+const loadYaml = (): typeof Yaml => {
+  const requireModule = createRequire(__filename);
+  try {
+    requireModule.resolve('yaml');
+  } catch {
+    throw new Error("Loading YAML policies requires the 'yaml' package");
+  }
+  return requireModule('yaml');
+};
+
+const toError = (source: string, issues: ConfigIssue[]): ConfigValidationError => {
+  const details = issues
+    .filter(issue => issue.level === 'error')
+    .map(issue => `\n  ${issue.path || '(root)'}: ${issue.message}`)
+    .join('');
+  return new ConfigValidationError(`Invalid sanitization policy ${source}:${details}`, issues);
+};
+
+const parseDocument = (text: string, source: string): unknown => {
+  const yaml = /\.ya?ml$/i.test(source) ? loadYaml() : undefined;
+  try {
+    return yaml ? yaml.parse(text) : JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw toError(source, [{ level: 'error', path: '', message }]);
+  }
+};
+
+// JSON has no regular expressions, so policies write them as { "regex": "...", "flags": "..." }
+const toRegExps = (value: unknown, path: string, issues: ConfigIssue[]): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toRegExps(item, `${path}[${index}]`, issues));
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.regex === 'string' && Object.keys(record).every(key => key === 'regex' || key === 'flags')) {
+    try {
+      return new RegExp(record.regex, record.flags as string | undefined);
+    } catch (error) {
+      issues.push({ level: 'error', path, message: `invalid regular expression: ${(error as Error).message}` });
+      return value;
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(record).map(([key, item]) => [key, toRegExps(item, `${path}.${key}`, issues)])
+  );
+};
+
+const resolveProfiles = (
+  definitions: Record<string, ProfileDefinition>,
+  issues: ConfigIssue[]
+): Record<string, SanitizationConfig> => {
+  const profiles: Record<string, SanitizationConfig> = {};
+  const resolving = new Set<string>();
+
+  // Profiles from the same file come first, then registered ones
+  const resolveBase = (base: string, path: string): SanitizationConfig | undefined => {
+    if (hasOwn(definitions, base)) return resolveProfile(base);
+    if (isConfigName(base)) return getConfig(base);
+    issues.push({ level: 'error', path, message: `unknown profile '${base}'` });
+    return undefined;
+  };
+
+  const resolveProfile = (name: string): SanitizationConfig | undefined => {
+    if (hasOwn(profiles, name)) return profiles[name];
+    const path = `profiles.${name}`;
+    if (resolving.has(name)) {
+      issues.push({ level: 'error', path: `${path}.extends`, message: `circular extends through '${name}'` });
+      return undefined;
+    }
+
+    resolving.add(name);
+    const { extends: base, ...overrides } = toRegExps(definitions[name], path, issues) as ProfileDefinition;
+    const baseConfig = base === undefined ? {} : resolveBase(base, `${path}.extends`);
+    resolving.delete(name);
+    if (!baseConfig) return undefined;
+
+    const config = createCustomConfig(baseConfig, overrides);
+    for (const issue of validateConfig(config)) {
+      issues.push({ ...issue, path: `${path}.${issue.path}` });
+    }
+    profiles[name] = config;
+    return config;
+  };
+
+  Object.keys(definitions).forEach(resolveProfile);
+  return profiles;
+};
+
+const createSnapshot = (document: unknown, source: string, logger: SanitizationLogger): PolicySnapshot => {
+  const issues = validateJsonSchema(document, POLICY_SCHEMA);
+  if (issues.length) throw toError(source, issues);
+
+  const { defaultProfile, profiles: definitions = {}, routes = [] } = document as PolicyDocument;
+  const profiles = resolveProfiles(definitions, issues);
+  const checkReference = (name: string | undefined, path: string) => {
+    if (name !== undefined && !hasOwn(profiles, name) && !hasOwn(definitions, name) && !isConfigName(name)) {
+      issues.push({ level: 'error', path, message: `unknown profile '${name}'` });
+    }
+  };
+  checkReference(defaultProfile, 'defaultProfile');
+  routes.forEach((route, index) => {
+    checkReference(route.profile, `routes[${index}].profile`);
+    try {
+      compileRoutePattern(route.path);
+    } catch (error) {
+      issues.push({ level: 'error', path: `routes[${index}].path`, message: (error as Error).message });
+    }
+  });
+  if (issues.some(issue => issue.level === 'error')) throw toError(source, issues);
+
+  for (const issue of issues) {
+    logger.warn(`Sanitization policy ${source} ${issue.path}: ${issue.message}`, {
+      event: 'policy-warning',
+      path: issue.path,
+    });
+  }
+  return deepFreeze({ source, profiles, routes, defaultProfile, loadedAt: new Date().toISOString() });
+};
+
+/**
+ * Reads a JSON or YAML policy file, validates it against POLICY_SCHEMA and the profile checks
+ * of validateConfig, and throws a ConfigValidationError listing every problem with its path.
+ * Pass the result to sanitizeRequest as `policy`; with `watch` it follows changes to the file.
+ */
+export const loadPolicy = (path: string, options: LoadPolicyOptions = {}): SanitizationPolicy => {
+  const source = resolve(path);
+  const logger = createLogger({ logger: options.logger });
+  let text = readFileSync(source, 'utf8');
+  let current = createSnapshot(parseDocument(text, source), source, logger);
+  let watcher: FSWatcher | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = (): PolicySnapshot => {
+    const changed = readFileSync(source, 'utf8');
+    current = createSnapshot(parseDocument(changed, source), source, logger);
+    text = changed;
+    logger.info(`Reloaded sanitization policy ${source}`, { event: 'policy-reloaded' });
+    options.onReload?.(current);
+    return current;
+  };
+
+  const reportFailure = (error: unknown) => {
+    const failure = error instanceof Error ? error : new Error('Unknown error');
+    logger.error(`Failed to reload sanitization policy ${source}: ${failure.message}`, { event: 'policy-reload-failed' });
+    options.onError?.(failure);
+  };
+
+  const reloadChanged = () => {
+    try {
+      if (readFileSync(source, 'utf8') !== text) reload();
+    } catch (error) {
+      reportFailure(error);
+    }
+  };
+
+  if (options.watch) {
+    // Editors often replace the file instead of writing to it, so the directory is watched
+    watcher = watch(dirname(source), (_event, filename) => {
+      if (filename && filename.toString() !== basename(source)) return;
+      clearTimeout(timer);
+      timer = setTimeout(reloadChanged, options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+      timer.unref();
+    });
+    // Without a listener an error, such as the directory being removed, would crash the process
+    watcher.on('error', reportFailure);
+    watcher.unref();
+  }
+
+  return {
+    get current() {
+      return current;
+    },
+    reload,
+    close: () => {
+      clearTimeout(timer);
+      watcher?.close();
+    },
+  };
+};
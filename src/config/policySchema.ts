@@ -0,0 +1,136 @@
+import { JsonSchema } from '../utils/jsonSchema';
+import {
+  ConfigOverrides,
+  KeyPolicy,
+  LinkPolicy,
+  SanitizationConfig,
+  SanitizationLimits,
+  UrlPolicy
+} from '../types/sanitization';
+import { PolicyRoute } from '../types/policy';
+
+// Keyed by the TypeScript interfaces, so adding an option without describing it here fails to compile
+type SchemaFor<T> = Record<keyof Required<T>, JsonSchema>;
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+const boolean: JsonSchema = { type: 'boolean' };
+const string: JsonSchema = { type: 'string' };
+const positiveInteger: JsonSchema = { type: 'integer', minimum: 1 };
+
+const objectOf = <T>(properties: SchemaFor<T>, description?: string): JsonSchema => ({
+  type: 'object',
+  description,
+  properties,
+  additionalProperties: false,
+});
+
+const urlPolicy: SchemaFor<UrlPolicy> = {
+  allowedProtocols: ref('stringList'),
+  allowRelative: boolean,
+  relativeOnly: boolean,
+  allowedImageHosts: ref('stringList'),
+  blockedImageHosts: ref('stringList'),
+  urlFields: ref('patternList'),
+};
+
+const linkPolicy: SchemaFor<LinkPolicy> = {
+  rel: ref('stringList'),
+  externalTarget: string,
+  internalHosts: ref('stringList'),
+  redirectPrefix: string,
+};
+
+const limits: SchemaFor<SanitizationLimits> = {
+  maxDepth: positiveInteger,
+  maxKeys: positiveInteger,
+  maxArrayLength: positiveInteger,
+  maxTotalStringBytes: positiveInteger,
+};
+
+const keyPolicy: SchemaFor<KeyPolicy> = {
+  dangerousKeys: { enum: ['drop', 'reject'] },
+  nullPrototype: boolean,
+  allowedKeys: ref('patternList'),
+  deniedKeys: ref('patternList'),
+  sanitizeKeys: boolean,
+};
+
+const config: SchemaFor<SanitizationConfig> = {
+  format: { enum: ['html', 'markdown'] },
+  allowedTags: ref('stringList'),
+  allowedAttributes: ref('tagMap'),
+  allowedStyles: {
+    type: 'object',
+    description: 'Allowed values per CSS property, or true for any safe value',
+    additionalProperties: { anyOf: [{ type: 'boolean', enum: [true] }, ref('patternList')] },
+  },
+  allowedClasses: { type: 'object', additionalProperties: ref('patternList') },
+  idPrefix: string,
+  preventClobbering: boolean,
+  stripIgnoreTag: boolean,
+  stripIgnoreTagBody: boolean,
+  allowEmptyTags: boolean,
+  maxTagDepth: positiveInteger,
+  maxStringLength: positiveInteger,
+  sensitiveFields: ref('patternList'),
+  urlPolicy: objectOf(urlPolicy),
+  linkPolicy: objectOf(linkPolicy),
+  limits: objectOf(limits),
+  keyPolicy: objectOf(keyPolicy),
+};
+
+const overrides: SchemaFor<Omit<ConfigOverrides, keyof SanitizationConfig>> = {
+  addTags: ref('stringList'),
+  removeTags: ref('stringList'),
+  addAttributes: ref('tagMap'),
+  removeAttributes: ref('tagMap'),
+};
+
+const route: SchemaFor<PolicyRoute> = {
+  path: string,
+  method: { anyOf: [string, ref('stringList')] },
+  profile: string,
+  mode: { enum: ['sanitize', 'report', 'reject', 'skip'] },
+};
+
+/**
+ * JSON Schema for policy files read by loadPolicy, also published as
+ * schema/sanitization-policy.schema.json for editors and CI checks.
+ */
+export const POLICY_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://unpkg.com/sanitize-request/schema/sanitization-policy.schema.json',
+  title: 'sanitize-request policy',
+  type: 'object',
+  properties: {
+    $schema: string,
+    defaultProfile: { type: 'string', description: 'Profile for requests that match no route' },
+    profiles: { type: 'object', additionalProperties: ref('profile') },
+    routes: { type: 'array', items: ref('route') },
+  },
+  additionalProperties: false,
+  definitions: {
+    stringList: { type: 'array', items: string },
+    regex: {
+      type: 'object',
+      description: 'A regular expression, e.g. { "regex": "^lang-", "flags": "i" }',
+      properties: { regex: string, flags: string },
+      required: ['regex'],
+      additionalProperties: false,
+    },
+    pattern: { anyOf: [string, ref('regex')] },
+    patternList: { type: 'array', items: ref('pattern') },
+    tagMap: { type: 'object', additionalProperties: ref('stringList') },
+    profile: {
+      type: 'object',
+      properties: { extends: string, ...config, ...overrides },
+      additionalProperties: false,
+    },
+    route: {
+      type: 'object',
+      properties: route,
+      required: ['path'],
+      additionalProperties: false,
+    },
+  },
+};
@@ -1,4 +1,37 @@
-import { SanitizationConfig } from '../types/sanitization';
+import {
+  AllowedStyles,
+  ConfigOverrides,
+  RegisterProfileOptions,
+  SanitizationConfig
+} from '../types/sanitization';
+import { createLogger } from '../utils/logger';
+import { deepFreeze } from '../utils/freeze';
+import { ConfigValidationError, validateConfig } from './validateConfig';
+
+const COLOR = [
+  /#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})/i,
+  /rgba?\(\s*\d{1,3}%?\s*(?:,\s*\d{1,3}%?\s*){2}(?:,\s*(?:0|1|0?\.\d+)\s*)?\)/i,
+  /[a-z]+/i,
+];
+// Margins are never negative and stay small, so they cannot pull content over or off the page
+const NUMBER = '(?:\\d{1,2}(?:\\.\\d+)?|\\.\\d+)';
+const LENGTH = `(?:0|${NUMBER}(?:px|%)|(?:\\d(?:\\.\\d+)?|\\.\\d+)(?:em|rem)|auto)`;
+const MARGIN = [new RegExp(`${LENGTH}(?: ${LENGTH}){0,3}`)];
+
+// Colors, alignment and spacing; nothing that can load resources or move content out of place
+export const SAFE_STYLES: AllowedStyles = {
+  color: COLOR,
+  'background-color': COLOR,
+  'text-align': ['left', 'right', 'center', 'justify'],
+  'font-weight': ['normal', 'bold'],
+  'font-style': ['normal', 'italic'],
+  'text-decoration': ['none', 'underline', 'line-through'],
+  margin: MARGIN,
+  'margin-top': MARGIN,
+  'margin-right': MARGIN,
+  'margin-bottom': MARGIN,
+  'margin-left': MARGIN,
+};
 
 export const BASE_CONFIG: SanitizationConfig = {
   allowedTags: ['b', 'i', 'em', 'strong', 'p', 'br', 'ul', 'ol', 'li', 'a'],
@@ -53,9 +86,11 @@ export const BLOG_CONFIG: SanitizationConfig = {
     a: ['href', 'title', 'rel'],
     img: ['src', 'alt', 'title'],
     blockquote: ['cite'],
-    div: ['class'],
-    span: ['class'],
+    p: ['style'],
+    div: ['class', 'style'],
+    span: ['class', 'style'],
   },
+  allowedStyles: SAFE_STYLES,
   stripIgnoreTag: true,
   allowEmptyTags: false,
   maxTagDepth: 15,
@@ -65,6 +100,7 @@ export const BLOG_CONFIG: SanitizationConfig = {
 export const COMMENT_CONFIG: SanitizationConfig = {
   allowedTags: ['b', 'i', 'em', 'strong', 'br', 'a'],
   allowedAttributes: { a: ['href', 'title'] },
+  linkPolicy: { rel: ['nofollow', 'ugc'] },
   stripIgnoreTag: true,
   stripIgnoreTagBody: true,
   allowEmptyTags: false,
@@ -115,6 +151,28 @@ export const ADMIN_CONFIG: SanitizationConfig = {
   maxStringLength: 100000,
 };
 
+// Markdown comments and posts; raw HTML in them is limited to inline formatting
+export const MARKDOWN_CONFIG: SanitizationConfig = {
+  format: 'markdown',
+  allowedTags: ['b', 'i', 'em', 'strong', 'code', 'kbd', 'sub', 'sup', 'del', 'br', 'a'],
+  allowedAttributes: { a: ['href', 'title'] },
+  linkPolicy: { rel: ['nofollow', 'ugc'] },
+  // Raw HTML is purified tag by tag, so stripIgnoreTagBody and maxTagDepth would have no effect
+  stripIgnoreTag: true,
+  allowEmptyTags: false,
+  maxStringLength: 20000,
+};
+
+export const PLAINTEXT_CONFIG: SanitizationConfig = {
+  allowedTags: [],
+  allowedAttributes: {},
+  stripIgnoreTag: true,
+  stripIgnoreTagBody: false,
+  allowEmptyTags: false,
+  maxTagDepth: 1,
+  maxStringLength: 10000,
+};
+
 export const SANITIZATION_CONFIGS = {
   base: BASE_CONFIG,
   strict: STRICT_CONFIG,
@@ -123,27 +181,97 @@ export const SANITIZATION_CONFIGS = {
   comment: COMMENT_CONFIG,
   email: EMAIL_CONFIG,
   admin: ADMIN_CONFIG,
+  markdown: MARKDOWN_CONFIG,
+  plaintext: PLAINTEXT_CONFIG,
 } as const;
 
-export type ConfigName = keyof typeof SANITIZATION_CONFIGS;
+type BuiltInProfiles = typeof SANITIZATION_CONFIGS;
+
+/**
+ * Names of profiles added with registerProfile, so they can be used wherever a config name is accepted:
+ * `declare module 'sanitize-request' { interface RegisteredProfiles { forum: true } }`
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface RegisteredProfiles {}
+
+export type ConfigName = keyof BuiltInProfiles | keyof RegisteredProfiles;
+
+const profiles = new Map<string, SanitizationConfig>(
+  Object.entries(SANITIZATION_CONFIGS).map(([name, config]) => [name, deepFreeze(config)])
+);
 
+export const isConfigName = (name: string): name is ConfigName => profiles.has(name);
+
+// Returns the registered profile itself; profiles are frozen, so use createCustomConfig to change one
 export const getConfig = (name: ConfigName): SanitizationConfig => {
-  const config = SANITIZATION_CONFIGS[name];
+  const config = profiles.get(name);
   if (!config) throw new Error(`Unknown sanitization config: ${name}`);
-  return { ...config };
+  return config;
 };
 
+const without = <T>(values: T[], removed: T[]): T[] => values.filter(value => !removed.includes(value));
+const unique = <T>(values: T[]): T[] => Array.from(new Set(values));
+
 export const createCustomConfig = (
   base: ConfigName | SanitizationConfig,
-  overrides: Partial<SanitizationConfig>
+  overrides: ConfigOverrides
 ): SanitizationConfig => {
-  const baseConfig = typeof base === 'string' ? getConfig(base) : { ...base };
-  return {
+  const baseConfig = typeof base === 'string' ? getConfig(base) : base;
+  const { addTags = [], removeTags = [], addAttributes = {}, removeAttributes = {}, ...config } = overrides;
+
+  const allowedAttributes = { ...baseConfig.allowedAttributes, ...config.allowedAttributes };
+  for (const [tag, names] of Object.entries(addAttributes)) {
+    allowedAttributes[tag] = unique([...allowedAttributes[tag] ?? [], ...names]);
+  }
+  for (const [tag, names] of Object.entries(removeAttributes)) {
+    allowedAttributes[tag] = without(allowedAttributes[tag] ?? [], names);
+  }
+
+  const custom: SanitizationConfig = {
     ...baseConfig,
-    ...overrides,
-    allowedAttributes: {
-      ...baseConfig.allowedAttributes,
-      ...overrides.allowedAttributes,
-    },
+    ...config,
+    allowedTags: without(unique([...config.allowedTags ?? baseConfig.allowedTags ?? [], ...addTags]), removeTags),
+    allowedAttributes,
   };
+  const allowedClasses = custom.allowedClasses && { ...custom.allowedClasses };
+  for (const tag of removeTags) {
+    delete allowedAttributes[tag];
+    if (allowedClasses) delete allowedClasses[tag];
+  }
+  if (allowedClasses) custom.allowedClasses = allowedClasses;
+  return custom;
+};
+
+/**
+ * Adds a named profile, optionally built on an existing one with the same merge rules as createCustomConfig.
+ * The result is validated: errors throw a ConfigValidationError and warnings are logged.
+ */
+export const registerProfile = (
+  name: string,
+  config: ConfigOverrides,
+  options: RegisterProfileOptions = {}
+): SanitizationConfig => {
+  if (profiles.has(name)) {
+    throw new Error(`Sanitization profile '${name}' is already registered`);
+  }
+
+  const profile = createCustomConfig(options.extends ? getConfig(options.extends) : {}, config);
+  const issues = validateConfig(profile);
+  const errors = issues.filter(issue => issue.level === 'error');
+  if (errors.length) {
+    const details = errors.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    throw new ConfigValidationError(`Invalid sanitization profile '${name}': ${details}`, issues);
+  }
+
+  const logger = createLogger({ logger: options.logger });
+  for (const issue of issues) {
+    logger.warn(`Sanitization profile '${name}' ${issue.path}: ${issue.message}`, {
+      event: 'profile-warning',
+      profile: name,
+      path: issue.path,
+    });
+  }
+
+  profiles.set(name, deepFreeze(profile));
+  return profile;
 };
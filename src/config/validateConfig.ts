@@ -0,0 +1,92 @@
+import { ConfigIssue, SanitizationConfig } from '../types/sanitization';
+
+export class ConfigValidationError extends Error {
+  constructor(message: string, public issues: ConfigIssue[]) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const HTML_TAGS = new Set([
+  'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio', 'b', 'base', 'bdi', 'bdo', 'blockquote',
+  'body', 'br', 'button', 'canvas', 'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'data',
+  'datalist', 'dd', 'del', 'details', 'dfn', 'dialog', 'div', 'dl', 'dt', 'em', 'embed', 'fieldset',
+  'figcaption', 'figure', 'font', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header',
+  'hgroup', 'hr', 'html', 'i', 'iframe', 'img', 'input', 'ins', 'kbd', 'label', 'legend', 'li', 'link',
+  'main', 'map', 'mark', 'menu', 'meta', 'meter', 'nav', 'noscript', 'object', 'ol', 'optgroup', 'option',
+  'output', 'p', 'picture', 'pre', 'progress', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'script', 'search',
+  'section', 'select', 'slot', 'small', 'source', 'span', 'strike', 'strong', 'style', 'sub', 'summary',
+  'sup', 'table', 'tbody', 'td', 'template', 'textarea', 'tfoot', 'th', 'thead', 'time', 'title', 'tr',
+  'track', 'tt', 'u', 'ul', 'var', 'video', 'wbr', 'applet', 'frame', 'frameset', 'svg', 'math',
+]);
+
+// Tags that run script, load other documents or change how the page around them works
+const DANGEROUS_TAGS = [
+  'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'base', 'meta', 'link', 'noscript', 'template', 'svg', 'math',
+];
+
+const DANGEROUS_ATTRIBUTES: Array<{ tag: string; attribute: string; reason: string }> = [
+  { tag: 'form', attribute: 'action', reason: 'lets content send form data to any URL' },
+  { tag: '*', attribute: 'formaction', reason: 'lets content send form data to any URL' },
+  { tag: '*', attribute: 'srcdoc', reason: 'embeds a whole HTML document' },
+  { tag: '*', attribute: 'http-equiv', reason: 'can redirect or change the page policy' },
+];
+
+const SCRIPT_PROTOCOLS = ['javascript', 'vbscript', 'data'];
+
+// Custom elements always contain a hyphen
+const isKnownTag = (tag: string): boolean => HTML_TAGS.has(tag) || /^[a-z][a-z0-9]*-[a-z0-9-]*$/.test(tag);
+
+/**
+ * Checks a config for mistakes and risky settings. Errors are settings that cannot work as written,
+ * such as unknown tags; warnings are settings that work but let content do more than expected.
+ */
+export const validateConfig = (config: SanitizationConfig): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ level: 'error', path, message });
+  const warn = (path: string, message: string) => issues.push({ level: 'warning', path, message });
+  const allowedTags = (config.allowedTags ?? []).map(tag => tag.toLowerCase());
+
+  allowedTags.forEach((tag, index) => {
+    if (!isKnownTag(tag)) {
+      error(`allowedTags[${index}]`, `unknown tag '${tag}'`);
+    } else if (DANGEROUS_TAGS.includes(tag)) {
+      warn(`allowedTags[${index}]`, `'${tag}' can run script or load other content`);
+    }
+  });
+
+  const checkTagKeys = (option: 'allowedAttributes' | 'allowedClasses') => {
+    for (const tag of Object.keys(config[option] ?? {})) {
+      if (tag !== '*' && !allowedTags.includes(tag.toLowerCase())) {
+        error(`${option}.${tag}`, `tag '${tag}' is not in allowedTags`);
+      }
+    }
+  };
+  checkTagKeys('allowedAttributes');
+  checkTagKeys('allowedClasses');
+
+  for (const [tag, attributes] of Object.entries(config.allowedAttributes ?? {})) {
+    for (const attribute of attributes.map(name => name.toLowerCase())) {
+      const path = `allowedAttributes.${tag}`;
+      const dangerous = DANGEROUS_ATTRIBUTES.find(
+        candidate => candidate.attribute === attribute && (candidate.tag === '*' || candidate.tag === tag)
+      );
+      if (attribute.startsWith('on')) {
+        warn(path, `'${attribute}' is an event handler and runs script`);
+      } else if (dangerous) {
+        warn(path, `${tag}[${attribute}] ${dangerous.reason}`);
+      } else if (config.preventClobbering === false && (attribute === 'id' || attribute === 'name')) {
+        warn(path, `${tag}[${attribute}] can clobber DOM properties when preventClobbering is false`);
+      }
+    }
+  }
+
+  (config.urlPolicy?.allowedProtocols ?? []).forEach((protocol, index) => {
+    if (SCRIPT_PROTOCOLS.includes(protocol.toLowerCase().replace(/:$/, ''))) {
+      warn(`urlPolicy.allowedProtocols[${index}]`, `'${protocol}' URLs can run script`);
+    }
+  });
+
+  return issues;
+};
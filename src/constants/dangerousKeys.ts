@@ -0,0 +1,2 @@
+// Keys that can change an object's prototype when copied into a plain object
+export const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'];
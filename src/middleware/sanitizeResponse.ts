@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { createSanitizer } from '../utils/sanitizer';
+import {
+  FieldPattern,
+  FieldSchema,
+  SanitizationConfig,
+  SanitizationLimits,
+  SanitizationMetadata
+} from '../types/sanitization';
+import { ConfigName, getConfig } from '../config/sanitizationConfigs';
+import { LogLevel, SanitizationLogger } from '../types/logging';
+import { createLogger } from '../utils/logger';
+
+type ResponseSanitizationMode = 'sanitize' | 'report';
+
+interface SanitizeResponseOptions {
+  config?: SanitizationConfig | ConfigName;
+  mode?: ResponseSanitizationMode;
+  include?: FieldPattern[];
+  exclude?: FieldPattern[];
+  schema?: FieldSchema;
+  // res.send is also used for rendered pages, so string bodies are only sanitized when enabled
+  sanitizeStrings?: boolean;
+  // Only nesting is limited by default; see RESPONSE_LIMITS
+  limits?: SanitizationLimits;
+  cacheSize?: number;
+  onSanitized?: (metadata: SanitizationMetadata, req: Request) => void;
+  onError?: (error: Error, req: Request) => void;
+  // Send the original payload when sanitization fails instead of a 500; off by default
+  failOpen?: boolean;
+  logWarnings?: boolean;
+  logger?: SanitizationLogger;
+  logLevel?: LogLevel;
+}
+
+// The request limits guard against hostile input and would fail large but legitimate lists;
+// responses are the app's own data, so only the nesting depth, which bounds the walk, keeps its default
+const RESPONSE_LIMITS: SanitizationLimits = {
+  maxKeys: Infinity,
+  maxArrayLength: Infinity,
+  maxTotalStringBytes: Infinity,
+};
+
+const isPlainBody = (body: unknown): body is Record<string, any> =>
+  !!body && typeof body === 'object' && !Buffer.isBuffer(body) && !ArrayBuffer.isView(body);
+
+/**
+ * Sanitizes outgoing payloads passed to res.json and res.send, for stored data that was
+ * written before input sanitization was in place. In 'report' mode the original payload is
+ * sent and only the metadata is produced. Metadata is exposed as `res.locals.sanitization`.
+ * When sanitization fails, for instance on a payload over configured limits, a 500 is sent instead.
+ */
+export const sanitizeResponse = (options: SanitizeResponseOptions = {}) => {
+  const baseConfig = typeof options.config === 'string' || !options.config
+    ? getConfig(options.config ?? 'base')
+    : options.config;
+  const config: SanitizationConfig = {
+    ...baseConfig,
+    limits: { ...RESPONSE_LIMITS, ...baseConfig.limits, ...options.limits },
+  };
+  const mode = options.mode ?? 'sanitize';
+  const sanitizer = createSanitizer(config, {
+    schema: options.schema,
+    include: options.include,
+    exclude: options.exclude,
+    cacheSize: options.cacheSize,
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const logger = createLogger({ logger: options.logger, level: options.logLevel });
+    const originalJson = res.json;
+    const originalSend = res.send;
+    // Express implements res.send(object) through res.json and res.json through res.send
+    let inProgress = false;
+
+    const sanitizeBody = (body: any): any => {
+      try {
+        const result = typeof body === 'string'
+          ? sanitizer.sanitizeString(body, { logger })
+          : sanitizer.sanitize(body, { logger });
+
+        if (result.sanitized || result.warnings.length > 0) {
+          const metadata: SanitizationMetadata = {
+            sanitized: result.sanitized,
+            warnings: result.warnings,
+            errors: result.errors,
+            fieldsModified: result.fieldsModified,
+            changes: result.changes,
+            droppedKeys: result.droppedKeys,
+          };
+          res.locals.sanitization = metadata;
+          if (options.logWarnings && result.warnings.length > 0) {
+            logger.warn(`Response sanitization warnings for ${req.method} ${req.path}`, {
+              event: 'response-sanitization-warnings',
+              method: req.method,
+              path: req.path,
+              warnings: result.warnings,
+            });
+          }
+          options.onSanitized?.(metadata, req);
+        }
+
+        return mode === 'sanitize' ? result.data : body;
+      } catch (error) {
+        const sanitizationError = error instanceof Error ? error : new Error('Response sanitization failed');
+        logger.error('Error sanitizing response', {
+          event: 'sanitize-response-failed',
+          error: sanitizationError.message,
+        });
+        options.onError?.(sanitizationError, req);
+        // Report mode sends the payload unchanged anyway; otherwise unsanitized data must not go out
+        if (mode === 'report' || options.failOpen) {
+          return body;
+        }
+        res.status(500);
+        return { error: 'Response sanitization failed' };
+      }
+    };
+
+    const wrap = (original: (body?: any) => Response, shouldSanitize: (body: any) => boolean) =>
+      function (this: Response, body?: any): Response {
+        if (inProgress || !shouldSanitize(body)) {
+          return original.call(this, body);
+        }
+        inProgress = true;
+        try {
+          return original.call(this, sanitizeBody(body));
+        } finally {
+          inProgress = false;
+        }
+      };
+
+    res.json = wrap(originalJson, body => isPlainBody(body) || typeof body === 'string');
+    res.send = wrap(originalSend, body => isPlainBody(body) || (!!options.sanitizeStrings && typeof body === 'string'));
+
+    next();
+  };
+};
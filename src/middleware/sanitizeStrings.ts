@@ -1,31 +1,75 @@
 import { Request, Response, NextFunction } from 'express';
 import { SENSITIVE_FIELDS } from '../constants/sensitiveFields';
+import { createFieldMatcher } from '../utils/fieldMatcher';
+import { FieldPattern } from '../types/sanitization';
+import { SanitizationLogger } from '../types/logging';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_LIMITS, SanitizationLimitError } from '../utils/sanitizer';
+import { STRING_ENCODERS, StringEncodingMode } from '../utils/encoders';
 
 interface SanitizeStringsOptions {
-  customSensitiveFields?: string[];
+  customSensitiveFields?: FieldPattern[];
   customSanitizer?: (value: string) => string;
+  mode?: StringEncodingMode;
+  deep?: boolean;
+  // Nesting allowed before the body is rejected, as in SanitizationLimits
+  maxDepth?: number;
   skipEmptyStrings?: boolean;
+  logger?: SanitizationLogger;
 }
 
+// Framework-neutral part of sanitizeStrings: encodes string fields of a parsed body in place
+export const createStringFieldSanitizer = (options: SanitizeStringsOptions = {}) => {
+  const isSensitiveField = createFieldMatcher([...SENSITIVE_FIELDS, ...(options.customSensitiveFields || [])]);
+  const sanitizer = options.customSanitizer || STRING_ENCODERS[options.mode ?? 'strip'];
+  const deep = options.deep ?? true;
+  const maxDepth = options.maxDepth ?? DEFAULT_LIMITS.maxDepth;
+
+  // Containers on the current path, checked like the core walker does
+  const sanitizeFields = (container: Record<string, any> | any[], ancestors: Set<object>, path?: string) => {
+    const at = path ?? 'root';
+    if (ancestors.has(container)) {
+      throw new SanitizationLimitError(`Circular reference at '${at}'`, at, 'circular');
+    }
+    if (ancestors.size >= maxDepth) {
+      throw new SanitizationLimitError(`Nesting deeper than ${maxDepth} levels at '${at}'`, at, 'maxDepth');
+    }
+    ancestors.add(container);
+    for (const [key, value] of Object.entries(container)) {
+      const fieldPath = path === undefined
+        ? key
+        : Array.isArray(container) ? `${path}[${key}]` : `${path}.${key}`;
+      if (isSensitiveField(fieldPath)) continue;
+
+      if (typeof value === 'string') {
+        if (options.skipEmptyStrings && !value.trim()) continue;
+        (container as any)[key] = sanitizer(value);
+      } else if (deep && value && typeof value === 'object') {
+        sanitizeFields(value, ancestors, fieldPath);
+      }
+    }
+    ancestors.delete(container);
+  };
+
+  return (data: Record<string, any> | any[]) => sanitizeFields(data, new Set());
+};
+
 export const sanitizeStrings = (options: SanitizeStringsOptions = {}) => {
+  const sanitizeFields = createStringFieldSanitizer(options);
+  const logger = createLogger({ logger: options.logger });
+
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.body) return next();
 
-      const sensitiveFields = [...SENSITIVE_FIELDS, ...(options.customSensitiveFields || [])];
-      const defaultSanitizer = (value: string) => value.replace(/[<>"'&]/g, '').trim();
-      const sanitizer = options.customSanitizer || defaultSanitizer;
-
-      for (const [key, value] of Object.entries(req.body)) {
-        if (typeof value === 'string' && !sensitiveFields.includes(key)) {
-          if (options.skipEmptyStrings && !value.trim()) continue;
-          req.body[key] = sanitizer(value);
-        }
-      }
+      sanitizeFields(req.body);
 
       next();
     } catch (error) {
-      console.error('Error sanitizing string fields:', error);
+      logger.error('Error sanitizing string fields', {
+        event: 'sanitize-strings-failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
       next(error);
     }
   };
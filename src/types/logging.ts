@@ -0,0 +1,24 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface SanitizationLogEvent {
+  event: string;
+  field?: string;
+  rule?: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+export type LogMethod = (message: string, event?: SanitizationLogEvent) => void;
+
+export interface SanitizationLogger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+export interface LoggerOptions {
+  logger?: SanitizationLogger;
+  level?: LogLevel;
+  context?: Partial<SanitizationLogEvent>;
+}
@@ -0,0 +1,45 @@
+import type { SanitizationConfig, SanitizationMode } from './sanitization';
+import type { SanitizationLogger } from './logging';
+
+// 'skip' leaves matching requests untouched
+export type RouteMode = SanitizationMode | 'skip';
+
+export interface RouteRule<TProfile = string> {
+  // An Express-style pattern such as '/posts/:id' or '/files/**'. It also matches everything
+  // below it, so '/auth' matches '/auth/login' but not '/author'
+  path: string;
+  method?: string | string[];
+  profile?: TProfile;
+  mode?: RouteMode;
+}
+
+// In a policy file the profile names one from the file or a registered one, and defaults to defaultProfile
+export type PolicyRoute = RouteRule;
+
+// A validated policy file with its profiles resolved to frozen configs
+export interface PolicySnapshot {
+  source: string;
+  profiles: Record<string, SanitizationConfig>;
+  routes: PolicyRoute[];
+  defaultProfile?: string;
+  loadedAt: string;
+}
+
+export interface LoadPolicyOptions {
+  // Reload the policy when the file changes
+  watch?: boolean;
+  // Milliseconds to wait for further changes before reloading (default 100)
+  debounceMs?: number;
+  // Receives validation warnings and reload failures
+  logger?: SanitizationLogger;
+  onReload?: (policy: PolicySnapshot) => void;
+  // A changed file that fails to load is reported here and the previous policy stays in use
+  onError?: (error: Error) => void;
+}
+
+export interface SanitizationPolicy {
+  // Replaced as a whole when the file is reloaded
+  readonly current: PolicySnapshot;
+  reload: () => PolicySnapshot;
+  close: () => void;
+}
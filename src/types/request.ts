@@ -0,0 +1,80 @@
+import type { ConfigName } from '../config/sanitizationConfigs';
+import type {
+  FieldPattern,
+  FieldSchema,
+  RequestSanitizationMetadata,
+  SanitizationConfig,
+  SanitizationMode,
+  SanitizationTarget,
+} from './sanitization';
+import type { LogLevel, SanitizationLogger } from './logging';
+import type { PurifyPool } from '../utils/workerPool';
+import type { PolicyRoute, RouteMode, RouteRule, SanitizationPolicy } from './policy';
+
+// The subset of a request the core reads; Express, Fastify and Koa requests all fit it
+export interface RequestLike {
+  method?: string;
+  path?: string;
+  url?: string;
+  id?: unknown;
+  headers?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  query?: unknown;
+  params?: unknown;
+  cookies?: unknown;
+}
+
+export interface SanitizeRequestOptions<TRequest = RequestLike> {
+  config?: SanitizationConfig | ConfigName;
+  mode?: SanitizationMode;
+  targets?: SanitizationTarget[];
+  targetConfigs?: Partial<Record<SanitizationTarget, SanitizationConfig | ConfigName>>;
+  sensitiveFields?: FieldPattern[];
+  schema?: FieldSchema;
+  onSanitized?: (metadata: RequestSanitizationMetadata) => void;
+  onError?: (error: Error, req: TRequest) => void;
+  // Route patterns to leave alone, e.g. '/auth' or '/files/*.bin'; same as routes with mode 'skip'
+  skipPaths?: string[];
+  // Picks the profile and mode per route; the most specific match wins, see RouteRule
+  routes?: RequestRoute[];
+  logWarnings?: boolean;
+  logger?: SanitizationLogger;
+  logLevel?: LogLevel;
+  getRequestId?: (req: TRequest) => string | undefined;
+  cacheSize?: number;
+  // Sanitizes asynchronously, purifying large strings on worker threads
+  workerPool?: PurifyPool;
+  // A policy from loadPolicy; its routes pick the profile and mode, and reloads apply to running middleware
+  policy?: SanitizationPolicy;
+}
+
+// Where the Express middleware and the Node and Fastify adapters leave the metadata of a request
+export interface SanitizedRequest {
+  _sanitization?: RequestSanitizationMetadata;
+}
+
+// The profile is a config name or a config object; without one the route uses `config`
+export type RequestRoute = RouteRule<SanitizationConfig | ConfigName>;
+
+// Which rule applied to a request, as reported by explainRoute
+export interface RouteDecision {
+  // 'default' when no route matched
+  source: 'skipPaths' | 'policy' | 'routes' | 'default';
+  route?: RequestRoute | PolicyRoute;
+  // Position of the route in its list
+  index?: number;
+  params: Record<string, string>;
+  // A profile name (from the policy file or registered) or a config object
+  profile?: SanitizationConfig | string;
+  mode: RouteMode;
+}
+
+export interface RequestSanitizationOutcome {
+  skipped: boolean;
+  // Sanitized values per target; only filled in 'sanitize' mode
+  values: Partial<Record<SanitizationTarget, unknown>>;
+  // Set when anything was sanitized or warned about
+  metadata?: RequestSanitizationMetadata;
+  // Set when the request should not continue
+  error?: Error;
+}
@@ -1,11 +1,207 @@
+import type { ConfigName } from '../config/sanitizationConfigs';
+import type { LogLevel, SanitizationLogger } from './logging';
+import type { PurifyPool } from '../utils/workerPool';
+
+export type FieldPattern = string | RegExp;
+
+export type UrlContext = 'link' | 'image';
+
+export interface UrlPolicy {
+  allowedProtocols?: string[];
+  allowRelative?: boolean;
+  relativeOnly?: boolean;
+  allowedImageHosts?: string[];
+  blockedImageHosts?: string[];
+  urlFields?: FieldPattern[];
+}
+
+export interface UrlSanitizationResult {
+  url: string | null;
+  reason?: string;
+}
+
+export interface LinkPolicy {
+  rel?: string[];
+  externalTarget?: string;
+  internalHosts?: string[];
+  redirectPrefix?: string;
+}
+
+// Limits for a whole payload, checked while it is walked
+export interface SanitizationLimits {
+  maxDepth?: number;
+  maxKeys?: number;
+  maxArrayLength?: number;
+  maxTotalStringBytes?: number;
+}
+
+export type SanitizationLimit = keyof SanitizationLimits | 'circular' | 'maxRecordBytes';
+
+export interface KeyPolicy {
+  // What to do with __proto__, constructor and prototype keys (default 'drop')
+  dangerousKeys?: 'drop' | 'reject';
+  // Build sanitized objects with Object.create(null)
+  nullPrototype?: boolean;
+  // Matched against key paths like sensitiveFields; parents of allowed keys must be allowed too
+  allowedKeys?: FieldPattern[];
+  deniedKeys?: FieldPattern[];
+  // Strip HTML and quote characters from key names
+  sanitizeKeys?: boolean;
+}
+
+export type DroppedKeyReason = 'dangerous' | 'denied' | 'not-allowed' | 'empty' | 'duplicate';
+
+export interface DroppedKey {
+  field: string;
+  key: string;
+  reason: DroppedKeyReason;
+}
+
+// An exact value, or a pattern the whole value must match
+export type ValuePattern = string | RegExp;
+
+// Values per CSS property, compared ignoring case; true allows any safe value
+export type AllowedStyles = Record<string, ValuePattern[] | true>;
+
+// 'markdown' sanitizes Markdown source and returns Markdown, keeping code as written
+export type ContentFormat = 'html' | 'markdown';
+
 export interface SanitizationConfig {
+  format?: ContentFormat;
   allowedTags?: string[];
   allowedAttributes?: Record<string, string[]>;
+  // CSS properties kept in style attributes and <style> blocks; anything else is removed
+  allowedStyles?: AllowedStyles;
+  // Class names per tag ('*' applies to every tag); without it any class is kept
+  allowedClasses?: Record<string, ValuePattern[]>;
+  // Prepended to id and name values and to attributes referring to ids, e.g. 'user-content-'
+  idPrefix?: string;
+  // Remove id and name values that would shadow document or form properties (default true)
+  preventClobbering?: boolean;
   stripIgnoreTag?: boolean;
   stripIgnoreTagBody?: boolean;
   allowEmptyTags?: boolean;
   maxTagDepth?: number;
   maxStringLength?: number;
+  sensitiveFields?: FieldPattern[];
+  urlPolicy?: UrlPolicy;
+  linkPolicy?: LinkPolicy;
+  limits?: SanitizationLimits;
+  keyPolicy?: KeyPolicy;
+}
+
+// Changes applied on top of a base config; allowedTags replaces the base list, addTags and removeTags edit it
+export interface ConfigOverrides extends SanitizationConfig {
+  addTags?: string[];
+  // Also removes the attributes and classes allowed on these tags
+  removeTags?: string[];
+  addAttributes?: Record<string, string[]>;
+  removeAttributes?: Record<string, string[]>;
+}
+
+export interface RegisterProfileOptions {
+  extends?: ConfigName;
+  // Receives the warnings found by validateConfig
+  logger?: SanitizationLogger;
+}
+
+export interface ConfigIssue {
+  level: 'error' | 'warning';
+  // Where in the config the issue is, e.g. 'allowedAttributes.form'
+  path: string;
+  message: string;
+}
+
+// 'skip' leaves the field untouched, a RegExp validates the field as plain text
+export type FieldRule = ConfigName | SanitizationConfig | 'skip' | RegExp;
+export type FieldSchema = Record<string, FieldRule>;
+
+export type SanitizationRule =
+  | 'tag-removed'
+  | 'dangerous-tag-removed'
+  | 'attribute-removed'
+  | 'event-handler-removed'
+  | 'url-blocked'
+  | 'link-rewritten'
+  | 'style-removed'
+  | 'class-removed'
+  | 'id-prefixed'
+  | 'clobbering-prevented'
+  | 'tag-escaped'
+  | 'depth-flattened'
+  | 'truncated'
+  | 'pattern-mismatch'
+  | 'key-sanitized'
+  | 'normalized';
+
+export interface FieldChangeReport {
+  field: string;
+  rules: SanitizationRule[];
+  removedTags: string[];
+  removedAttributes: Array<{ tag: string; attribute: string }>;
+  blockedUrls: Array<{ url: string; reason: string }>;
+  // CSS declarations, rules and at-rules that were dropped
+  removedStyles: Array<{ property: string; reason: string }>;
+  // Attribute values that were changed rather than removed outright; `to` is null when nothing was left
+  changedAttributes: Array<{ tag: string; attribute: string; from: string; to: string | null; reason: string }>;
+  originalLength: number;
+  finalLength: number;
+}
+
+export interface TypeHandlerContext {
+  field?: string;
+  // Sanitizes a nested value with the current config, schema and limits
+  sanitize: (value: unknown, field?: string) => unknown;
+}
+
+// Handles objects that are not plain records, e.g. Map, Set or class instances with their own invariants
+export interface TypeHandler {
+  name: string;
+  test: (value: object) => boolean;
+  sanitize: (value: any, context: TypeHandlerContext) => unknown;
+}
+
+export interface SanitizeDataOptions {
+  schema?: FieldSchema;
+  // Only these fields and everything below them are sanitized
+  include?: FieldPattern[];
+  // These fields and everything below them are left as they are
+  exclude?: FieldPattern[];
+  typeHandlers?: TypeHandler[];
+  logger?: SanitizationLogger;
+}
+
+export interface SanitizerOptions extends SanitizeDataOptions {
+  // Number of purified strings to remember per config; 0 disables the cache
+  cacheSize?: number;
+}
+
+export interface SanitizeCallOptions {
+  logger?: SanitizationLogger;
+}
+
+export interface AsyncSanitizeOptions extends SanitizeCallOptions {
+  // Fields to walk before handing the event loop back; defaults to 1000
+  yieldEvery?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Purifies strings above the pool's threshold on worker threads
+  workerPool?: PurifyPool;
+}
+
+export interface WorkerPoolOptions {
+  // Worker threads to start at most; defaults to the number of CPUs minus one
+  size?: number;
+  // Minimum string length, in characters, to send to a worker; defaults to 10000
+  threshold?: number;
+  // Strings waiting for a worker beyond this are purified inline; defaults to 100
+  queueLimit?: number;
+  // A worker that takes longer than this on one string is replaced; defaults to 30000
+  jobTimeoutMs?: number;
+  // Path of the compiled purifyWorker.js, for bundlers that move it
+  workerScript?: string | URL;
+  logger?: SanitizationLogger;
+  logLevel?: LogLevel;
 }
 
 export interface SanitizationResult<T> {
@@ -13,6 +209,22 @@ export interface SanitizationResult<T> {
   sanitized: boolean;
   warnings: string[];
   errors?: string[];
+  fieldsModified: string[];
+  changes: FieldChangeReport[];
+  droppedKeys: DroppedKey[];
+}
+
+export interface SanitizedStream<T> extends AsyncIterable<T> {
+  // Metadata for the records read so far; complete once the stream is exhausted
+  getResult: () => Omit<SanitizationResult<T[]>, 'data'>;
+}
+
+export type JsonStreamFormat = 'ndjson' | 'json-array';
+
+export interface SanitizeStreamOptions extends SanitizerOptions, AsyncSanitizeOptions {
+  format?: JsonStreamFormat;
+  // UTF-8 bytes a single record may take before it is parsed; defaults to 1 MiB
+  maxRecordBytes?: number;
 }
 
 export interface SanitizationMetadata {
@@ -20,10 +232,47 @@ export interface SanitizationMetadata {
   warnings: string[];
   errors?: string[];
   fieldsModified: string[];
+  changes: FieldChangeReport[];
+  droppedKeys: DroppedKey[];
+  // UTF-8 bytes of the strings that were sanitized, before and after
   originalSize?: number;
   finalSize?: number;
 }
 
-export type SanitizableValue = string | number | boolean | null | undefined | Date | RegExp;
+export type SanitizableValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ArrayBuffer
+  | ArrayBufferView;
 export type SanitizableObject = Record<string, any>;
-export type SanitizableInput = SanitizableValue | SanitizableObject | Array<any>;
\ No newline at end of file
+export type SanitizableInput =
+  | SanitizableValue
+  | SanitizableObject
+  | Array<any>
+  | Map<unknown, unknown>
+  | Set<unknown>;
+
+export type SanitizationTarget = 'body' | 'query' | 'params' | 'cookies' | 'headers';
+
+// 'reject' fails the request instead of rewriting it, 'report' only records metadata
+export type SanitizationMode = 'sanitize' | 'reject' | 'report';
+
+export interface TargetSanitizationResult {
+  sanitized: boolean;
+  warnings: string[];
+  errors?: string[];
+  fieldsModified: string[];
+  changes: FieldChangeReport[];
+  droppedKeys: DroppedKey[];
+}
+
+export interface RequestSanitizationMetadata extends TargetSanitizationResult {
+  mode: SanitizationMode;
+  targets: Partial<Record<SanitizationTarget, TargetSanitizationResult>>;
+  timestamp: string;
+}
@@ -0,0 +1,25 @@
+export const GLOBAL_ATTRIBUTES_KEY = '*';
+
+type AllowedAttributes = Record<string, string[]>;
+
+const includesName = (names: string[] | undefined, name: string): boolean =>
+  !!names && names.some(candidate => candidate.toLowerCase() === name);
+
+export const isAttributeAllowed = (
+  allowedAttributes: AllowedAttributes,
+  tagName: string,
+  attrName: string
+): boolean => {
+  const tag = tagName.toLowerCase();
+  const attr = attrName.toLowerCase();
+
+  return (
+    includesName(allowedAttributes[tag], attr) ||
+    includesName(allowedAttributes[GLOBAL_ATTRIBUTES_KEY], attr)
+  );
+};
+
+export const collectAttributeNames = (allowedAttributes: AllowedAttributes): string[] => {
+  const names = Object.values(allowedAttributes).flat().map(name => name.toLowerCase());
+  return Array.from(new Set(names));
+};
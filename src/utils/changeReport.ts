@@ -0,0 +1,85 @@
+import type { RemovedAttribute, RemovedElement } from 'dompurify';
+import { FieldChangeReport, SanitizationRule } from '../types/sanitization';
+
+const DANGEROUS_TAGS = [
+  'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'style', 'link', 'meta', 'base', 'svg', 'math', 'template', 'noscript',
+];
+
+// DOMPurify reports the document wrapper it parses into as removed as well
+const IGNORED_NODES = ['#text', 'html', 'head', 'body'];
+
+export const createChangeReport = (field: string, originalLength: number): FieldChangeReport => ({
+  field,
+  rules: [],
+  removedTags: [],
+  removedAttributes: [],
+  blockedUrls: [],
+  removedStyles: [],
+  changedAttributes: [],
+  originalLength,
+  finalLength: originalLength,
+});
+
+export const addRule = (report: FieldChangeReport, rule: SanitizationRule): void => {
+  if (!report.rules.includes(rule)) report.rules.push(rule);
+};
+
+export const recordRemoved = (
+  report: FieldChangeReport,
+  removed: Array<RemovedElement | RemovedAttribute>,
+  isReported: (node: Node, attribute: string) => boolean
+): void => {
+  // FORCE_BODY prepends a <remove> marker element, which is the first one removed
+  let markerSeen = false;
+  for (const entry of removed) {
+    if ('element' in entry) {
+      const tag = entry.element.nodeName.toLowerCase();
+      if (IGNORED_NODES.includes(tag)) continue;
+      if (tag === 'remove' && !markerSeen) {
+        markerSeen = true;
+        continue;
+      }
+      report.removedTags.push(tag);
+      addRule(report, DANGEROUS_TAGS.includes(tag) ? 'dangerous-tag-removed' : 'tag-removed');
+    } else if (entry.attribute && !isReported(entry.from, entry.attribute.name)) {
+      const attribute = entry.attribute.name.toLowerCase();
+      report.removedAttributes.push({ tag: entry.from.nodeName.toLowerCase(), attribute });
+      addRule(report, attribute.startsWith('on') ? 'event-handler-removed' : 'attribute-removed');
+    }
+  }
+};
+
+// Output that changed without any rule firing was only re-serialized, e.g. `&` became `&amp;`
+export const finalizeChangeReport = (report: FieldChangeReport, output: string, changed: boolean): void => {
+  report.finalLength = output.length;
+  if (changed && !report.rules.length) addRule(report, 'normalized');
+};
+
+// Adds the rules and findings of `source` to `target`, leaving `source` untouched
+export const combineChangeReport = (target: FieldChangeReport, source: FieldChangeReport): void => {
+  source.rules.forEach(rule => addRule(target, rule));
+  target.removedTags.push(...source.removedTags);
+  target.removedAttributes.push(...source.removedAttributes);
+  target.blockedUrls.push(...source.blockedUrls);
+  target.removedStyles.push(...source.removedStyles);
+  target.changedAttributes.push(...source.changedAttributes);
+};
+
+// `byField` indexes `changes`, so a field reported many times is found without scanning the list
+export const mergeChangeReport = (
+  changes: FieldChangeReport[],
+  byField: Map<string, FieldChangeReport>,
+  report: FieldChangeReport
+): void => {
+  if (!report.rules.length) return;
+
+  const existing = byField.get(report.field);
+  if (!existing) {
+    changes.push(report);
+    byField.set(report.field, report);
+    return;
+  }
+  combineChangeReport(existing, report);
+  existing.finalLength = report.finalLength;
+};
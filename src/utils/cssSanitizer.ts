@@ -0,0 +1,193 @@
+import { AllowedStyles } from '../types/sanitization';
+import { matchesValuePattern } from './valuePattern';
+
+export interface RemovedStyle {
+  property: string;
+  reason: string;
+}
+
+export interface CssSanitizationResult {
+  css: string;
+  removed: RemovedStyle[];
+}
+
+// Functions that load resources or run script; image-set() and friends take plain strings as URLs
+const BLOCKED_FUNCTIONS = ['url', 'expression', 'image', 'image-set', 'cross-fade', 'element', 'paint', 'src'];
+
+const BLOCKED_PROPERTIES = ['behavior', '-moz-binding'];
+
+const PROPERTY_NAME = /^-?[a-z_][a-z0-9_-]*$/;
+
+const isQuote = (char: string): boolean => char === '"' || char === "'";
+
+// Old IE ignores comments inside names, e.g. `exp/**/ression(`, so they are dropped before anything is checked
+const stripComments = (css: string): string => {
+  let output = '';
+  let quote = '';
+  for (let index = 0; index < css.length; index++) {
+    const char = css[index];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (isQuote(char)) {
+      quote = char;
+    } else if (char === '/' && css[index + 1] === '*') {
+      const end = css.indexOf('*/', index + 2);
+      index = end === -1 ? css.length : end + 1;
+      continue;
+    }
+    output += char;
+  }
+  return output;
+};
+
+// Index of the first of `chars` outside strings and parentheses, or the end of the input
+const findTopLevel = (css: string, start: number, chars: string): number => {
+  let quote = '';
+  let depth = 0;
+  for (let index = start; index < css.length; index++) {
+    const char = css[index];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (isQuote(char)) {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && chars.includes(char)) {
+      return index;
+    }
+  }
+  return css.length;
+};
+
+// Index of the `}` closing the block opened at `open`, or the end of the input
+const findBlockEnd = (css: string, open: number): number => {
+  let depth = 0;
+  for (let index = open; index < css.length; index = findTopLevel(css, index + 1, '{}')) {
+    depth += css[index] === '{' ? 1 : -1;
+    if (depth === 0) return index;
+  }
+  return css.length;
+};
+
+const isBalanced = (value: string): boolean => {
+  let quote = '';
+  let depth = 0;
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (isQuote(char)) {
+      quote = char;
+    } else if (char === '(' || char === ')') {
+      depth += char === '(' ? 1 : -1;
+      if (depth < 0) return false;
+    }
+  }
+  return !quote && depth === 0;
+};
+
+// Escapes and markup are never needed by an allowed value, and `<` could close a <style> block
+const findUnsafeValue = (value: string): string | undefined => {
+  if (/[\\<>{}]/.test(value)) return 'escapes, markup and braces are not allowed';
+  if (!isBalanced(value)) return 'unbalanced quotes or parentheses';
+  for (const [, name] of value.matchAll(/([-\w]+)\s*\(/g)) {
+    const fn = name.toLowerCase().replace(/^-[a-z]+-/, '');
+    if (BLOCKED_FUNCTIONS.includes(fn)) return `${fn}() is not allowed`;
+  }
+  return undefined;
+};
+
+const checkDeclaration = (property: string, value: string, allowedStyles: AllowedStyles): string | undefined => {
+  if (!PROPERTY_NAME.test(property)) return 'invalid property name';
+  if (!value) return 'empty value';
+  if (BLOCKED_PROPERTIES.includes(property)) return `'${property}' is not allowed`;
+  const unsafe = findUnsafeValue(value);
+  if (unsafe) return unsafe;
+  // Fixed elements can cover the whole page, whatever the allowlist says
+  if (property === 'position' && /\bfixed\b/i.test(value)) return "position 'fixed' is not allowed";
+  if (!Object.prototype.hasOwnProperty.call(allowedStyles, property)) return 'property is not allowed';
+
+  const allowed = allowedStyles[property];
+  if (allowed !== true && !allowed.some(pattern => matchesValuePattern(value, pattern, true))) return 'value is not allowed';
+  return undefined;
+};
+
+const sanitizeDeclarations = (css: string, allowedStyles: AllowedStyles, removed: RemovedStyle[]): string[] => {
+  const declarations: string[] = [];
+  for (let start = 0; start < css.length;) {
+    const end = findTopLevel(css, start, ';');
+    const declaration = css.slice(start, end).trim();
+    start = end + 1;
+    if (!declaration) continue;
+
+    const colon = declaration.indexOf(':');
+    if (colon === -1) {
+      removed.push({ property: declaration, reason: 'invalid declaration' });
+      continue;
+    }
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const [, rawValue, important] = /^([\s\S]*?)(\s*!\s*important)?$/i.exec(declaration.slice(colon + 1).trim()) as RegExpExecArray;
+    const value = rawValue.trim().replace(/\s+/g, ' ');
+
+    const reason = checkDeclaration(property, value, allowedStyles);
+    if (reason) {
+      removed.push({ property, reason });
+    } else {
+      declarations.push(`${property}: ${value}${important ? ' !important' : ''}`);
+    }
+  }
+  return declarations;
+};
+
+/**
+ * Keeps the declarations of a style attribute that are in `allowedStyles`.
+ * The result is rebuilt from the parsed declarations, so comments and stray text are dropped.
+ */
+export const sanitizeStyle = (style: string, allowedStyles: AllowedStyles): CssSanitizationResult => {
+  const removed: RemovedStyle[] = [];
+  const css = sanitizeDeclarations(stripComments(style), allowedStyles, removed).join('; ');
+  return { css, removed };
+};
+
+const sanitizeRules = (css: string, allowedStyles: AllowedStyles, removed: RemovedStyle[], nested: boolean): string[] => {
+  const rules: string[] = [];
+  for (let start = 0; start < css.length;) {
+    const open = findTopLevel(css, start, '{;');
+    const prelude = css.slice(start, open).trim().replace(/\s+/g, ' ');
+    const close = css[open] === '{' ? findBlockEnd(css, open) : open;
+    const body = css.slice(open + 1, close);
+    start = close + 1;
+    if (!prelude) continue;
+
+    if (prelude.startsWith('@')) {
+      const name = prelude.split(/[\s({]/)[0].toLowerCase();
+      // Only media queries are kept, one level deep; @import, @font-face and the rest can load resources
+      if (name !== '@media' || nested || css[open] !== '{' || findUnsafeValue(prelude)) {
+        removed.push({ property: name, reason: 'at-rule is not allowed' });
+        continue;
+      }
+      const inner = sanitizeRules(body, allowedStyles, removed, true);
+      if (inner.length) rules.push(`${prelude} {\n${inner.join('\n')}\n}`);
+      continue;
+    }
+
+    if (css[open] !== '{' || /[\\<@;"']/.test(prelude)) {
+      removed.push({ property: prelude, reason: 'invalid selector' });
+      continue;
+    }
+    const declarations = sanitizeDeclarations(body, allowedStyles, removed);
+    if (declarations.length) rules.push(`${prelude} { ${declarations.join('; ')} }`);
+  }
+  return rules;
+};
+
+/**
+ * Sanitizes the contents of a <style> block: rules keep their selectors and allowed declarations,
+ * @media blocks are sanitized the same way and other at-rules are removed.
+ */
+export const sanitizeStylesheet = (stylesheet: string, allowedStyles: AllowedStyles): CssSanitizationResult => {
+  const removed: RemovedStyle[] = [];
+  const css = sanitizeRules(stripComments(stylesheet), allowedStyles, removed, false).join('\n');
+  return { css, removed };
+};
@@ -0,0 +1,44 @@
+export type StringEncodingMode =
+  | 'strip'
+  | 'html-entity-encode'
+  | 'attribute-encode'
+  | 'js-string-encode'
+  | 'url-encode';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+};
+
+const toHex = (char: string): string => char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0');
+
+export const stripDangerousCharacters = (value: string): string => value.replace(/[<>"'&]/g, '').trim();
+
+export const encodeHtmlEntities = (value: string): string => value.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
+// OWASP: everything below 256 except alphanumerics, so unquoted attribute values are safe too
+export const encodeHtmlAttribute = (value: string): string =>
+  value.replace(/[^a-zA-Z0-9\u0100-\uffff]/g, char => `&#x${toHex(char)};`);
+
+// Line and paragraph separators end a string literal in older engines, so they are escaped as well
+export const encodeJsString = (value: string): string =>
+  value
+    .replace(/[^a-zA-Z0-9\u0100-\uffff]/g, char => `\\x${toHex(char)}`)
+    .replace(/[\u2028\u2029]/g, char => `\\u${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// encodeURIComponent throws on lone surrogates, which valid JSON can hold; they become U+FFFD
+// as with String.prototype.toWellFormed, which Node 14 does not have
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+
+export const encodeUrlComponent = (value: string): string => encodeURIComponent(value.replace(LONE_SURROGATE, '\uFFFD'));
+
+export const STRING_ENCODERS: Record<StringEncodingMode, (value: string) => string> = {
+  'strip': stripDangerousCharacters,
+  'html-entity-encode': encodeHtmlEntities,
+  'attribute-encode': encodeHtmlAttribute,
+  'js-string-encode': encodeJsString,
+  'url-encode': encodeUrlComponent,
+};
@@ -0,0 +1,82 @@
+import { FieldPattern } from '../types/sanitization';
+
+const GLOB_SEGMENTS = ['*', '**'];
+
+// Case and separators are ignored so that `API_KEY`, `api-key` and `apiKey` are the same key
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[_-]/g, '');
+
+export const splitFieldPath = (path: string): string[] =>
+  path.replace(/\[(\d+|\*)\]/g, '.$1').split('.').filter(Boolean);
+
+const matchSegments = (pattern: string[], path: string[]): boolean => {
+  if (!pattern.length) return !path.length;
+
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    return matchSegments(rest, path) || (path.length > 0 && matchSegments(pattern, path.slice(1)));
+  }
+  if (!path.length) return false;
+
+  return (head === '*' || head === path[0]) && matchSegments(rest, path.slice(1));
+};
+
+const compileGlob = (pattern: string): string[] =>
+  splitFieldPath(pattern).map(segment => (GLOB_SEGMENTS.includes(segment) ? segment : normalizeKey(segment)));
+
+// 0 for exact paths, 1 for single-segment globs, 2 for globs containing '**'
+export const getPatternSpecificity = (pattern: string): number =>
+  pattern.includes('**') ? 2 : pattern.includes('*') ? 1 : 0;
+
+// Matches the whole path, unlike createFieldMatcher where plain names match any leaf
+export const createPathMatcher = (pattern: string) => {
+  const glob = compileGlob(pattern);
+  return (path: string): boolean => matchSegments(glob, splitFieldPath(path).map(normalizeKey));
+};
+
+/**
+ * Builds a predicate for dotted field paths such as `user.password` or `items[0].token`.
+ * Plain names match the last path segment, dotted patterns are globs where `*` matches one
+ * segment and `**` any number of segments, and regular expressions are tested against the raw path.
+ */
+export const createFieldMatcher = (patterns: readonly FieldPattern[]) => {
+  const keys = new Set<string>();
+  const globs: string[][] = [];
+  const expressions: RegExp[] = [];
+
+  for (const pattern of patterns) {
+    if (pattern instanceof RegExp) {
+      expressions.push(pattern);
+    } else if (/[.*[]/.test(pattern)) {
+      globs.push(compileGlob(pattern));
+    } else {
+      keys.add(normalizeKey(pattern));
+    }
+  }
+
+  return (path: string): boolean => {
+    const segments = splitFieldPath(path).map(normalizeKey);
+    if (!segments.length) return false;
+
+    return (
+      keys.has(segments[segments.length - 1]) ||
+      globs.some(glob => matchSegments(glob, segments)) ||
+      expressions.some(expression => {
+        expression.lastIndex = 0;
+        return expression.test(path);
+      })
+    );
+  };
+};
+
+export type FieldMatcher = ReturnType<typeof createFieldMatcher>;
+
+// Like createFieldMatcher, but a path also matches when one of its ancestors does
+export const createSubtreeMatcher = (patterns: readonly FieldPattern[]): FieldMatcher => {
+  const matches = createFieldMatcher(patterns);
+  return (path: string): boolean => {
+    for (let index = 1; index < path.length; index++) {
+      if ((path[index] === '.' || path[index] === '[') && matches(path.slice(0, index))) return true;
+    }
+    return matches(path);
+  };
+};
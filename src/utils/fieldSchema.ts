@@ -0,0 +1,30 @@
+import { FieldSchema, SanitizationConfig } from '../types/sanitization';
+import { getConfig } from '../config/sanitizationConfigs';
+import { createPathMatcher, getPatternSpecificity } from './fieldMatcher';
+
+export type CompiledFieldRule =
+  | { type: 'skip' }
+  | { type: 'pattern'; pattern: RegExp }
+  | { type: 'config'; config: SanitizationConfig };
+
+interface FieldSchemaEntry {
+  matches: (path: string) => boolean;
+  rule: CompiledFieldRule;
+}
+
+export type FieldSchemaLookup = (path: string) => CompiledFieldRule | undefined;
+
+const compileRule = (rule: FieldSchema[string]): CompiledFieldRule => {
+  if (rule === 'skip') return { type: 'skip' };
+  if (rule instanceof RegExp) return { type: 'pattern', pattern: rule };
+  return { type: 'config', config: typeof rule === 'string' ? getConfig(rule) : rule };
+};
+
+// Exact paths win over '*' globs, which win over '**' globs; ties keep declaration order
+export const compileFieldSchema = (schema: FieldSchema = {}): FieldSchemaLookup => {
+  const entries: FieldSchemaEntry[] = Object.entries(schema)
+    .map(([path, rule]) => ({ path, matches: createPathMatcher(path), rule: compileRule(rule) }))
+    .sort((a, b) => getPatternSpecificity(a.path) - getPatternSpecificity(b.path));
+
+  return (path: string) => entries.find(entry => entry.matches(path))?.rule;
+};
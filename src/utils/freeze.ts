@@ -0,0 +1,8 @@
+// RegExps are left alone, since matching sets their lastIndex
+export const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !(value instanceof RegExp) && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
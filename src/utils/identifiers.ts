@@ -0,0 +1,51 @@
+import { ValuePattern } from '../types/sanitization';
+import { GLOBAL_ATTRIBUTES_KEY } from './attributeFilter';
+import { matchesValuePattern } from './valuePattern';
+
+// Attributes holding space-separated ids, which have to follow prefixed ids
+const ID_REFERENCE_ATTRIBUTES = [
+  'for', 'form', 'list', 'headers',
+  'aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details',
+  'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns',
+];
+
+export const isNamedPropertyAttribute = (attribute: string): boolean => attribute === 'id' || attribute === 'name';
+
+export const filterClasses = (
+  value: string,
+  tagName: string,
+  allowedClasses: Record<string, ValuePattern[]>
+): { value: string; removed: string[] } => {
+  const patterns = [...allowedClasses[tagName.toLowerCase()] ?? [], ...allowedClasses[GLOBAL_ATTRIBUTES_KEY] ?? []];
+  const kept: string[] = [];
+  const removed: string[] = [];
+  for (const name of value.split(/\s+/).filter(Boolean)) {
+    (patterns.some(pattern => matchesValuePattern(name, pattern)) ? kept : removed).push(name);
+  }
+  return { value: kept.join(' '), removed };
+};
+
+// Values that already start with the prefix are kept, so sanitizing twice does not prefix twice
+export const prefixIdentifiers = (attribute: string, value: string, prefix: string): string => {
+  const addPrefix = (id: string) => (id.startsWith(prefix) ? id : prefix + id);
+  if (isNamedPropertyAttribute(attribute)) {
+    return value ? addPrefix(value) : value;
+  }
+  if (ID_REFERENCE_ATTRIBUTES.includes(attribute)) {
+    return value.split(/\s+/).filter(Boolean).map(addPrefix).join(' ');
+  }
+  return value;
+};
+
+/**
+ * Named elements become properties of `document` and of their form, so `<img name="cookie">`
+ * replaces document.cookie and `<input name="action">` replaces form.action.
+ */
+export const createClobberingCheck = () => {
+  let form: HTMLFormElement | undefined;
+  return (value: string, node: Element): boolean => {
+    const document = node.ownerDocument;
+    form = form ?? document.createElement('form');
+    return value in document || value in form;
+  };
+};
@@ -0,0 +1,120 @@
+import { ConfigIssue } from '../types/sanitization';
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The subset of JSON Schema (draft-07) the policy schema uses
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  minimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+const getType = (value: unknown): JsonType =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : (typeof value as JsonType);
+
+const hasType = (value: unknown, type: JsonType): boolean =>
+  type === 'integer' ? Number.isInteger(value) : type === 'number' ? typeof value === 'number' : getType(value) === type;
+
+const formatValue = (value: unknown): string => (typeof value === 'string' ? `'${value}'` : String(value));
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const hasOwn = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+
+const distance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const suggest = (key: string, known: string[]): string => {
+  const match = known.find(candidate => distance(key.toLowerCase(), candidate.toLowerCase()) <= 2);
+  return match ? `, did you mean '${match}'?` : '';
+};
+
+const resolveRef = (schema: JsonSchema, root: JsonSchema): JsonSchema => {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace(/^#\/definitions\//, '');
+  const target = root.definitions?.[name];
+  if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return resolveRef(target, root);
+};
+
+const validate = (value: unknown, schema: JsonSchema, root: JsonSchema, path: string): ConfigIssue[] => {
+  schema = resolveRef(schema, root);
+  const error = (message: string, at = path): ConfigIssue[] => [{ level: 'error', path: at, message }];
+
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map(option => validate(value, option, root, path));
+    if (attempts.some(issues => !issues.length)) return [];
+    // Report the option with the right type, since its errors say more than "must be one of"
+    const typed = schema.anyOf.findIndex(option => {
+      const { type } = resolveRef(option, root);
+      return type && [type].flat().some(candidate => hasType(value, candidate));
+    });
+    if (typed !== -1) return attempts[typed];
+    const types = schema.anyOf.flatMap(option => [resolveRef(option, root).type ?? []].flat());
+    return error(`must be ${Array.from(new Set(types)).join(' or ')}`);
+  }
+
+  if (schema.type) {
+    const types = [schema.type].flat();
+    if (!types.some(type => hasType(value, type))) return error(`must be ${types.join(' or ')}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return error(`must be one of ${schema.enum.map(formatValue).join(', ')}`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    return error(`must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, index) => validate(item, items, root, joinPath(path, index)));
+  }
+
+  if (getType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const issues: ConfigIssue[] = [];
+    for (const key of schema.required ?? []) {
+      if (!hasOwn(record, key)) issues.push(...error('is required', joinPath(path, key)));
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = hasOwn(properties, key) ? properties[key] : schema.additionalProperties;
+      if (property === false) {
+        issues.push(...error(`unknown property${suggest(key, Object.keys(properties))}`, joinPath(path, key)));
+      } else if (property && property !== true) {
+        issues.push(...validate(item, property, root, joinPath(path, key)));
+      }
+    }
+    return issues;
+  }
+
+  return [];
+};
+
+/**
+ * Validates a parsed JSON or YAML document against a schema. Each issue has the path of the
+ * offending value, e.g. `profiles.forum.allowedTags[2]`, and an empty path for the document itself.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema): ConfigIssue[] =>
+  validate(value, schema, schema, '');
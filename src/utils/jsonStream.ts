@@ -0,0 +1,141 @@
+import { SanitizationConfig, SanitizedStream, SanitizeStreamOptions } from '../types/sanitization';
+import { createSanitizer, SanitizationError, SanitizationLimitError } from './sanitizer';
+
+type ChunkSource = AsyncIterable<string | Uint8Array>;
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+async function* decodeChunks(source: ChunkSource): AsyncGenerator<string> {
+  // Multi-byte characters may be split across chunks
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+export const DEFAULT_MAX_RECORD_BYTES = 1024 * 1024;
+
+// The text of a record is held until it is complete, so its size is checked while it comes in
+const checkRecordSize = (text: string, index: number, maxRecordBytes: number): void => {
+  // UTF-8 takes at least one byte per UTF-16 code unit and at most three, so short text needs no count
+  if (text.length * 3 <= maxRecordBytes || Buffer.byteLength(text) <= maxRecordBytes) return;
+  throw new SanitizationLimitError(
+    `Record [${index}] exceeds ${maxRecordBytes} bytes`,
+    `[${index}]`,
+    'maxRecordBytes'
+  );
+};
+
+// Yields the text of each non-empty line
+export async function* splitNdjson(
+  source: ChunkSource,
+  maxRecordBytes = DEFAULT_MAX_RECORD_BYTES
+): AsyncGenerator<string> {
+  let buffer = '';
+  let records = 0;
+  for await (const chunk of decodeChunks(source)) {
+    buffer += chunk;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        checkRecordSize(line, records++, maxRecordBytes);
+        yield line;
+      }
+      newline = buffer.indexOf('\n');
+    }
+    checkRecordSize(buffer, records, maxRecordBytes);
+  }
+  if (buffer.trim()) yield buffer.trim();
+}
+
+// Yields the text of each element of a top-level JSON array without parsing the whole array
+export async function* splitJsonArray(
+  source: ChunkSource,
+  maxRecordBytes = DEFAULT_MAX_RECORD_BYTES
+): AsyncGenerator<string> {
+  let buffer = '';
+  let index = 0;
+  let started = false;
+  let ended = false;
+  let elements = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of decodeChunks(source)) {
+    buffer += chunk;
+    for (; index < buffer.length; index++) {
+      const char = buffer[index];
+      if (!started || ended) {
+        if (isWhitespace(char)) continue;
+        if (ended || char !== '[') {
+          throw new SanitizationError(`Unexpected '${char}' ${ended ? 'after' : 'before'} the JSON array`);
+        }
+        started = true;
+        buffer = buffer.slice(index + 1);
+        index = -1;
+      } else if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (depth > 0) {
+        if (char === '}' || char === ']') depth--;
+      } else if (char === ',' || char === ']') {
+        const element = buffer.slice(0, index).trim();
+        buffer = buffer.slice(index + 1);
+        index = -1;
+        ended = char === ']';
+        // '[]' has no elements; an empty element anywhere else is left for JSON.parse to reject
+        if (element || !ended || elements > 0) {
+          checkRecordSize(element, elements++, maxRecordBytes);
+          yield element;
+        }
+      }
+    }
+    if (started && !ended) checkRecordSize(buffer, elements, maxRecordBytes);
+  }
+
+  if (!ended) {
+    throw new SanitizationError('Unexpected end of the JSON array');
+  }
+}
+
+async function* parseRecords(lines: AsyncIterable<string>): AsyncGenerator<unknown> {
+  let index = 0;
+  for await (const line of lines) {
+    const field = `[${index++}]`;
+    try {
+      yield JSON.parse(line);
+    } catch (error) {
+      throw new SanitizationError(
+        `Invalid JSON in record ${field}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        field
+      );
+    }
+  }
+}
+
+/**
+ * Sanitizes an NDJSON stream or a stream holding one JSON array record by record, so only
+ * one record, of at most `maxRecordBytes`, is held in memory at a time. Accepts anything async-iterable, including Node
+ * readable streams such as an incoming request.
+ */
+export const sanitizeJsonStream = <T = unknown>(
+  source: ChunkSource,
+  config: SanitizationConfig,
+  options: SanitizeStreamOptions = {}
+): SanitizedStream<T> => {
+  const { format = 'ndjson', maxRecordBytes, yieldEvery, signal, timeoutMs, workerPool, ...sanitizerOptions } = options;
+  const split = format === 'json-array' ? splitJsonArray : splitNdjson;
+  const records = parseRecords(split(source, maxRecordBytes));
+  return createSanitizer(config, sanitizerOptions)
+    .sanitizeStream(records as AsyncIterable<T>, { yieldEvery, signal, timeoutMs, workerPool });
+};
@@ -0,0 +1,43 @@
+import { LinkPolicy } from '../types/sanitization';
+import { getUrlHost, matchesHost } from './urlPolicy';
+
+const LINK_TAGS = ['A', 'AREA'];
+// Links that open a new tab are treated as user content too
+const BLANK_TARGET_REL = ['noopener', 'noreferrer', 'nofollow', 'ugc'];
+
+export const isLink = (node: Element): boolean => LINK_TAGS.includes(node.nodeName);
+
+const isExternal = (href: string, policy: LinkPolicy): boolean => {
+  const host = getUrlHost(href);
+  return !!host && !matchesHost(host, policy.internalHosts || []);
+};
+
+const mergeRel = (current: string | null, tokens: string[]): string => {
+  const existing = (current || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set([...existing, ...tokens])).join(' ');
+};
+
+// Runs after attribute filtering, so the attributes set here are kept even if the profile does not allow them
+export const applyLinkPolicy = (link: Element, policy: LinkPolicy): boolean => {
+  const href = link.getAttribute('href');
+  const before = [href, link.getAttribute('target'), link.getAttribute('rel')];
+  const external = !!href && isExternal(href, policy);
+
+  if (external && policy.externalTarget) {
+    link.setAttribute('target', policy.externalTarget);
+  }
+  if (external && href && policy.redirectPrefix) {
+    link.setAttribute('href', `${policy.redirectPrefix}${encodeURIComponent(href)}`);
+  }
+
+  const rel = [...(policy.rel || [])];
+  if (link.getAttribute('target')?.toLowerCase() === '_blank') {
+    rel.push(...BLANK_TARGET_REL);
+  }
+  if (rel.length) {
+    link.setAttribute('rel', mergeRel(link.getAttribute('rel'), rel));
+  }
+
+  const after = [link.getAttribute('href'), link.getAttribute('target'), link.getAttribute('rel')];
+  return after.some((value, index) => value !== before[index]);
+};
@@ -0,0 +1,76 @@
+import {
+  LoggerOptions,
+  LogLevel,
+  LogMethod,
+  SanitizationLogEvent,
+  SanitizationLogger
+} from '../types/logging';
+
+type WriteLevel = Exclude<LogLevel, 'silent'>;
+
+interface PinoLike {
+  debug: (event: object, message: string) => void;
+  info: (event: object, message: string) => void;
+  warn: (event: object, message: string) => void;
+  error: (event: object, message: string) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const toConsole = (write: (...args: unknown[]) => void): LogMethod =>
+  (message, event) => (event ? write(message, event) : write(message));
+
+export const consoleLogger: SanitizationLogger = {
+  debug: toConsole((...args) => console.debug(...args)),
+  info: toConsole((...args) => console.info(...args)),
+  warn: toConsole((...args) => console.warn(...args)),
+  error: toConsole((...args) => console.error(...args)),
+};
+
+let activeLogger: SanitizationLogger = consoleLogger;
+let activeLevel: LogLevel = 'info';
+
+export const setLogger = (logger: SanitizationLogger): void => {
+  activeLogger = logger;
+};
+
+export const setLogLevel = (level: LogLevel): void => {
+  activeLevel = level;
+};
+
+export const resetLogger = (): void => {
+  activeLogger = consoleLogger;
+  activeLevel = 'info';
+};
+
+// Falls back to the global logger and level at call time, so setLogger also affects existing middleware
+export const createLogger = (options: LoggerOptions = {}): SanitizationLogger => {
+  const write = (level: WriteLevel): LogMethod => (message, event) => {
+    if (LEVELS[level] < LEVELS[options.level ?? activeLevel]) return;
+
+    const payload = { ...options.context, ...event };
+    const logger = options.logger ?? activeLogger;
+    logger[level](message, Object.keys(payload).length ? (payload as SanitizationLogEvent) : undefined);
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+};
+
+// pino takes the event object first; winston's (message, meta) signature already matches
+export const fromPino = (pino: PinoLike): SanitizationLogger => ({
+  debug: (message, event) => pino.debug(event ?? {}, message),
+  info: (message, event) => pino.info(event ?? {}, message),
+  warn: (message, event) => pino.warn(event ?? {}, message),
+  error: (message, event) => pino.error(event ?? {}, message),
+});
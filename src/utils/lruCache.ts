@@ -0,0 +1,31 @@
+export interface LruCache<K, V> {
+  get: (key: K) => V | undefined;
+  set: (key: K, value: V) => void;
+  readonly size: number;
+}
+
+// Map keeps insertion order, so the first key is always the least recently used one
+export const createLruCache = <K, V>(maxEntries: number): LruCache<K, V> => {
+  const entries = new Map<K, V>();
+
+  return {
+    get: (key: K) => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key: K, value: V) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as K);
+      }
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
@@ -0,0 +1,319 @@
+import { createPurifier, Purifier, PurifyOutcome, PurifyPolicy } from './purifier';
+import { sanitizeUrl } from './urlPolicy';
+import { addRule, combineChangeReport, createChangeReport } from './changeReport';
+
+// Elements whose content is raw text, so the whole element is purified at once
+const RAW_TEXT_TAGS = ['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'template'];
+
+// HTML constructs as CommonMark recognizes them inline
+const ATTRIBUTE = String.raw`\s+[A-Za-z_:][A-Za-z0-9_.:-]*(?:\s*=\s*(?:[^\s"'=<>\x60]+|'[^']*'|"[^"]*"))?`;
+const OPEN_TAG = new RegExp(String.raw`^<([A-Za-z][A-Za-z0-9-]*)(?:${ATTRIBUTE})*\s*\/?>`);
+const CLOSING_TAG = /^<\/([A-Za-z][A-Za-z0-9-]*)\s*>/;
+const HTML_OTHER = /^(?:<!-->|<!--->|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![A-Za-z][^>]*>|<!\[CDATA\[[\s\S]*?\]\]>)/;
+const URI_AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK = /^<[A-Za-z0-9.!#$%&'*+/=?^_\x60{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*>/;
+
+// Fences are only kept as written at the start of a line; indented ones may belong to a list item
+const FENCE_OPEN = /^(`{3,}|~{3,})/;
+// Quote and list markers before a line's content
+const CONTAINER_PREFIX = String.raw`^(?:[ \t]*(?:>|[-+*]|\d{1,9}[.)])(?=[ \t]|$))*[ \t]*`;
+// Lines starting an HTML block, also inside quotes and list items; everything up to the block's end is raw HTML
+const HTML_BLOCK_START = new RegExp(`${CONTAINER_PREFIX}<[A-Za-z/!?]`);
+// Blocks with an end marker; all others end at a blank line
+const HTML_BLOCK_ENDS: Array<[RegExp, RegExp]> = [
+  [new RegExp(`${CONTAINER_PREFIX}<(?:script|pre|style|textarea)(?:[\\s>]|$)`, 'i'), /<\/(?:script|pre|style|textarea)>/i],
+  [new RegExp(`${CONTAINER_PREFIX}<!--`), /-->/],
+  [new RegExp(`${CONTAINER_PREFIX}<\\?`), /\?>/],
+  [new RegExp(`${CONTAINER_PREFIX}<!\\[CDATA\\[`), /\]\]>/],
+  [new RegExp(`${CONTAINER_PREFIX}<![A-Za-z]`), />/],
+];
+const BLANK_LINE = /^(?:[ \t]*>)*[ \t]*\r?\n?$/;
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const BLANK_REST_OF_LINE = /[ \t]*(?:\n|$)/y;
+
+interface Block {
+  text: string;
+  verbatim: boolean;
+  codeSpans: boolean;
+}
+
+const splitLines = (input: string): string[] => input.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const findClosingFence = (lines: string[], start: number, fence: string): number => {
+  const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*\\r?\\n?$`);
+  for (let index = start; index < lines.length; index++) {
+    if (closing.test(lines[index])) return index;
+  }
+  return -1;
+};
+
+const findHtmlBlockEnd = (lines: string[], start: number): number => {
+  const end = HTML_BLOCK_ENDS.find(([opening]) => opening.test(lines[start]))?.[1];
+  for (let index = start; index < lines.length; index++) {
+    if (end ? end.test(lines[index]) : index > start && BLANK_LINE.test(lines[index])) return index;
+  }
+  return lines.length - 1;
+};
+
+// Fenced blocks are kept as written; in HTML blocks backticks are plain text, so code spans are not kept there
+const splitBlocks = (input: string): Block[] => {
+  const lines = splitLines(input);
+  const blocks: Block[] = [];
+  const push = (text: string, verbatim: boolean, codeSpans: boolean) => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.verbatim === verbatim && last.codeSpans === codeSpans) {
+      last.text += text;
+    } else {
+      blocks.push({ text, verbatim, codeSpans });
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fence = FENCE_OPEN.exec(line)?.[1];
+    const fenceEnd = fence && !(fence[0] === '`' && line.slice(fence.length).includes('`'))
+      ? findClosingFence(lines, index + 1, fence)
+      : -1;
+    if (fenceEnd !== -1) {
+      push(lines.slice(index, fenceEnd + 1).join(''), true, false);
+      index = fenceEnd;
+    } else if (HTML_BLOCK_START.test(line)) {
+      const end = findHtmlBlockEnd(lines, index);
+      push(lines.slice(index, end + 1).join(''), false, false);
+      index = end;
+    } else {
+      push(line, false, true);
+    }
+  }
+  return blocks;
+};
+
+// Backslash escapes are undone before a URL is checked, as a renderer would
+const unescapeMarkdown = (input: string): string =>
+  input.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+/**
+ * Sanitizes Markdown source: raw HTML goes through the HTML purifier tag by tag, link,
+ * image and autolink URLs are checked against the URL policy, and fenced blocks and code
+ * spans are left exactly as written. The result is still Markdown. Tags are not matched up,
+ * so `maxTagDepth` and `stripIgnoreTagBody` have no effect.
+ */
+export const createMarkdownPurifier = (policy: PurifyPolicy, cacheSize = 0): Purifier => {
+  const purifyHtml = createPurifier(policy, cacheSize);
+  const allowedTags = policy.allowedTags.map(tag => tag.toLowerCase());
+
+  return (input: string): PurifyOutcome => {
+    const report = createChangeReport('', input.length);
+    const blockedAttributes: PurifyOutcome['blockedAttributes'] = [];
+    let depthExceeded = false;
+
+    if (!/[<\]]/.test(input)) {
+      return { output: input, report, blockedAttributes, depthExceeded };
+    }
+
+    const purify = (html: string): string => {
+      const outcome = purifyHtml(html);
+      combineChangeReport(report, outcome.report);
+      blockedAttributes.push(...outcome.blockedAttributes);
+      depthExceeded = depthExceeded || outcome.depthExceeded;
+      return outcome.output;
+    };
+
+    // Returns null when the URL is blocked
+    const checkUrl = (url: string, isImage: boolean): string | null => {
+      const decoded = unescapeMarkdown(url);
+      const { url: allowed, reason } = sanitizeUrl(decoded, policy.urlPolicy, isImage ? 'image' : 'link');
+      if (allowed !== null) return url;
+
+      report.blockedUrls.push({ url: decoded, reason: reason as string });
+      addRule(report, 'url-blocked');
+      blockedAttributes.push({ tag: isImage ? 'img' : 'a', attribute: isImage ? 'src' : 'href', reason: reason as string });
+      return null;
+    };
+
+    // Returns the replacement for the construct starting with '<' and how much of the text it covers
+    const sanitizeAngle = (text: string, index: number): [string, number] => {
+      const rest = text.slice(index);
+      const autolink = URI_AUTOLINK.exec(rest);
+      if (autolink) {
+        return [checkUrl(autolink[1], false) === null ? '' : autolink[0], autolink[0].length];
+      }
+      const email = EMAIL_AUTOLINK.exec(rest);
+      if (email) {
+        return [email[0], email[0].length];
+      }
+      const other = HTML_OTHER.exec(rest);
+      if (other) {
+        return [purify(other[0]), other[0].length];
+      }
+      const closing = CLOSING_TAG.exec(rest);
+      if (closing) {
+        if (allowedTags.includes(closing[1].toLowerCase())) {
+          return [`</${closing[1].toLowerCase()}>`, closing[0].length];
+        }
+        if (policy.stripIgnoreTag) {
+          return ['', closing[0].length];
+        }
+        addRule(report, 'tag-escaped');
+        return [`&lt;/${closing[1]}&gt;`, closing[0].length];
+      }
+      const open = OPEN_TAG.exec(rest);
+      if (open) {
+        const tag = open[1].toLowerCase();
+        let element = open[0];
+        if (RAW_TEXT_TAGS.includes(tag)) {
+          const end = new RegExp(`</${tag}\\s*>`, 'i').exec(rest.slice(element.length));
+          element = end ? rest.slice(0, element.length + end.index + end[0].length) : rest;
+        }
+        const output = purify(element);
+        // A lone opening tag comes back with its closing tag added
+        const closingTag = `</${tag}>`;
+        return [output.endsWith(closingTag) && element === open[0] ? output.slice(0, -closingTag.length) : output, element.length];
+      }
+      // Anything else that a browser could read as the start of a tag is shown as text
+      return /^<[A-Za-z/!?]/.test(rest) ? ['&lt;', 1] : ['<', 1];
+    };
+
+    // Parses a link destination at `index` (just after '(' or ':') and returns its end. Backticks and
+    // '<' do not end it: a renderer reads the link before any code span or tag inside it
+    const findDestination = (text: string, index: number): [number, number] | null => {
+      // The destination may start on the next line
+      const start = index + (/^[ \t]*\n?[ \t]*/.exec(text.slice(index)) as RegExpExecArray)[0].length;
+      if (text[start] === '<') {
+        for (let end = start + 1; end < text.length; end++) {
+          const char = text[end];
+          if (char === '\\') end++;
+          else if (char === '>') return [start, end + 1];
+          else if (char === '<' || char === '\n') return null;
+        }
+        return null;
+      }
+      let end = start;
+      let depth = 0;
+      // eslint-disable-next-line no-control-regex
+      while (end < text.length && !/[\s\x00-\x1f]/.test(text[end])) {
+        const char = text[end];
+        if (char === '\\' && end + 1 < text.length) {
+          end += 2;
+          continue;
+        }
+        if (char === '(') depth++;
+        if (char === ')' && depth-- === 0) break;
+        end++;
+      }
+      return end > start ? [start, end] : null;
+    };
+
+    // Parses an optional title after a destination ending at `index` and returns its bounds
+    const findTitle = (text: string, index: number): [number, number] | null => {
+      const start = index + (/^[ \t]*\n?[ \t]*/.exec(text.slice(index)) as RegExpExecArray)[0].length;
+      const close = ({ '"': '"', "'": "'", '(': ')' } as Record<string, string>)[text[start]];
+      if (start === index || !close) return null;
+      for (let end = start + 1; end < text.length; end++) {
+        const char = text[end];
+        if (char === '\\') end++;
+        else if (char === close) return [start, end + 1];
+        else if (close === ')' && char === '(') return null;
+        // A title cannot span a blank line
+        else if (char === '\n') {
+          BLANK_REST_OF_LINE.lastIndex = end + 1;
+          if (BLANK_REST_OF_LINE.test(text)) return null;
+        }
+      }
+      return null;
+    };
+
+    // Skipped link text must not hold anything a renderer could read as a tag, code span or link in
+    // case it does not see the link, so those characters are encoded; escaped ones are already inert
+    const encodeDestination = (raw: string): string => {
+      const encode = (url: string) => url.replace(/\\[\s\S]|[<>`[\]]/g, char =>
+        char.length > 1 ? char : `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+      return raw.startsWith('<') ? `<${encode(raw.slice(1, -1))}>` : encode(raw);
+    };
+    const encodeTitle = (title: string): string =>
+      title.replace(/\\[\s\S]|[<`[\]]/g, char => char.length > 1 ? char : `&#${char.charCodeAt(0)};`);
+
+    // Sanitizes the destination and title of an inline link (after '(') or a reference definition
+    // (after ':'), returning the replacement and how much of the text it covers. Returns null when
+    // the text is not a link, so the scanner reads it as a renderer would.
+    const sanitizeLink = (text: string, index: number, isImage: boolean, inline: boolean): [string, number] | null => {
+      const destination = findDestination(text, index);
+      if (!destination) return null;
+      const [start, end] = destination;
+      const ending = inline ? /^[ \t]*\n?[ \t]*\)/ : /^[ \t]*(?=\n|$)/;
+      let title = findTitle(text, end);
+      let tail = ending.exec(text.slice(title ? title[1] : end));
+      // A definition whose title is not valid still counts when its destination ends the line
+      if (!tail && title && !inline) {
+        title = null;
+        tail = ending.exec(text.slice(end));
+      }
+      if (!tail) return null;
+
+      const raw = text.slice(start, end);
+      const url = raw.startsWith('<') ? raw.slice(1, -1) : raw;
+      // Blocked destinations are emptied; a reference definition needs '<>' to stay valid
+      const replacement = checkUrl(url, isImage) === null ? (inline ? '' : '<>') : encodeDestination(raw);
+      const titleText = title ? text.slice(end, title[0]) + encodeTitle(text.slice(title[0], title[1])) : '';
+      const finish = (title ? title[1] : end) + tail[0].length;
+      return [text.slice(index, start) + replacement + titleText + tail[0], finish - index];
+    };
+
+    const findClosingBackticks = (text: string, index: number, length: number): number => {
+      const lineEnd = text.indexOf('\n', index);
+      const line = text.slice(0, lineEnd === -1 ? text.length : lineEnd);
+      const run = new RegExp(`(?<!\`)\`{${length}}(?!\`)`, 'g');
+      run.lastIndex = index;
+      const match = run.exec(line);
+      if (!match) return -1;
+      // Table rows split cells at '|' even inside code spans
+      const lineStart = text.lastIndexOf('\n', index) + 1;
+      if (line.slice(lineStart).includes('|') && line.slice(index, match.index).includes('|')) return -1;
+      return match.index + length;
+    };
+
+    const sanitizeInline = (text: string, codeSpans: boolean): string => {
+      let output = '';
+      let index = 0;
+      const openers: boolean[] = [];
+      while (index < text.length) {
+        const char = text[index];
+        if (char === '\\' && ASCII_PUNCTUATION.test(text[index + 1] ?? '')) {
+          output += text.slice(index, index + 2);
+          index += 2;
+        } else if (char === '`') {
+          const length = /^`+/.exec(text.slice(index))?.[0].length as number;
+          const end = codeSpans ? findClosingBackticks(text, index + length, length) : -1;
+          const next = end === -1 ? index + length : end;
+          output += text.slice(index, next);
+          index = next;
+        } else if (char === '<') {
+          const [replacement, length] = sanitizeAngle(text, index);
+          output += replacement;
+          index += length;
+        } else if (char === '[') {
+          openers.push(text[index - 1] === '!' && text[index - 2] !== '\\');
+          output += char;
+          index++;
+        } else if (char === ']' && (text[index + 1] === '(' || text[index + 1] === ':')) {
+          const isImage = openers.pop() ?? false;
+          const link = sanitizeLink(text, index + 2, isImage, text[index + 1] === '(');
+          output += text.slice(index, index + 2) + (link?.[0] ?? '');
+          index += 2 + (link?.[1] ?? 0);
+        } else {
+          if (char === ']') openers.pop();
+          output += char;
+          index++;
+        }
+      }
+      return output;
+    };
+
+    const output = splitBlocks(input)
+      .map(block => block.verbatim ? block.text : sanitizeInline(block.text, block.codeSpans))
+      .join('');
+    report.finalLength = output.length;
+    return { output, report, blockedAttributes, depthExceeded };
+  };
+};
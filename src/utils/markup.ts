@@ -0,0 +1,34 @@
+const ELEMENT_NODE = 1;
+const ROOT_TAGS = ['BODY', 'HTML'];
+
+// Matches an opening or closing tag, skipping over '>' inside quoted attribute values
+const TAG_PATTERN = /<\/?([a-zA-Z][^\s/>]*)(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+const escapeTag = (tag: string): string => tag.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const escapeDisallowedTags = (
+  input: string,
+  allowedTags: string[],
+  onEscape?: (tagName: string) => void
+): string => {
+  const allowed = new Set(allowedTags.map(tag => tag.toLowerCase()));
+  return input.replace(TAG_PATTERN, (tag, name: string) => {
+    if (allowed.has(name.toLowerCase())) return tag;
+    onEscape?.(name.toLowerCase());
+    return escapeTag(tag);
+  });
+};
+
+export const stripTags = (input: string): string => input.replace(TAG_PATTERN, '');
+
+export const isElement = (node: Node): node is Element => node.nodeType === ELEMENT_NODE;
+
+export const getElementDepth = (node: Node): number => {
+  let depth = 0;
+  let current: Node | null = node;
+  while (current && isElement(current) && !ROOT_TAGS.includes(current.nodeName)) {
+    depth++;
+    current = current.parentNode;
+  }
+  return depth;
+};
@@ -0,0 +1,228 @@
+import DOMPurify from 'isomorphic-dompurify';
+import type { UponSanitizeAttributeHookEvent, UponSanitizeElementHookEvent } from 'dompurify';
+import { FieldChangeReport, SanitizationConfig, SanitizationRule } from '../types/sanitization';
+import { collectAttributeNames, isAttributeAllowed } from './attributeFilter';
+import { escapeDisallowedTags, getElementDepth, isElement } from './markup';
+import { isUrlAttribute, sanitizeUrl } from './urlPolicy';
+import { applyLinkPolicy, isLink } from './linkPolicy';
+import { createClobberingCheck, filterClasses, isNamedPropertyAttribute, prefixIdentifiers } from './identifiers';
+import { CssSanitizationResult, sanitizeStyle, sanitizeStylesheet } from './cssSanitizer';
+import { addRule, createChangeReport, recordRemoved } from './changeReport';
+import { createLruCache } from './lruCache';
+
+export type PurifyPolicy = Required<Pick<
+  SanitizationConfig,
+  | 'allowedTags'
+  | 'allowedAttributes'
+  | 'allowedStyles'
+  | 'stripIgnoreTag'
+  | 'stripIgnoreTagBody'
+  | 'allowEmptyTags'
+  | 'maxTagDepth'
+  | 'urlPolicy'
+  | 'linkPolicy'
+  | 'format'
+  | 'preventClobbering'
+>> & Pick<SanitizationConfig, 'allowedClasses' | 'idPrefix'>;
+
+// Field-independent result of purifying one string; outcomes can be cached and must not be mutated
+export interface PurifyOutcome {
+  output: string;
+  report: FieldChangeReport;
+  blockedAttributes: Array<{ tag: string; attribute: string; reason: string }>;
+  depthExceeded: boolean;
+}
+
+export type Purifier = (input: string) => PurifyOutcome;
+
+// Only plain data, so a policy can be sent to a worker thread
+export const pickPurifyPolicy = (config: PurifyPolicy): PurifyPolicy => ({
+  allowedTags: config.allowedTags,
+  allowedAttributes: config.allowedAttributes,
+  allowedStyles: config.allowedStyles,
+  allowedClasses: config.allowedClasses,
+  idPrefix: config.idPrefix,
+  preventClobbering: config.preventClobbering,
+  stripIgnoreTag: config.stripIgnoreTag,
+  stripIgnoreTagBody: config.stripIgnoreTagBody,
+  allowEmptyTags: config.allowEmptyTags,
+  maxTagDepth: config.maxTagDepth,
+  urlPolicy: config.urlPolicy,
+  linkPolicy: config.linkPolicy,
+  format: config.format,
+});
+
+// Longer strings are purified every time, so the cache holds at most cacheSize short strings
+export const MAX_CACHED_STRING_LENGTH = 4096;
+
+/**
+ * Builds the DOMPurify config for a policy once. Strings without '<' skip DOMPurify,
+ * and with `cacheSize` repeated strings of up to MAX_CACHED_STRING_LENGTH characters reuse
+ * earlier outcomes.
+ */
+export const createPurifier = (policy: PurifyPolicy, cacheSize = 0): Purifier => {
+  const purifyConfig: any = {
+    // '#text' must be listed explicitly, otherwise KEEP_CONTENT: false strips all text
+    ALLOWED_TAGS: [...policy.allowedTags, '#text'],
+    ALLOWED_ATTR: collectAttributeNames(policy.allowedAttributes),
+    KEEP_CONTENT: !policy.stripIgnoreTagBody,
+    ALLOW_EMPTY_TAGS: policy.allowEmptyTags,
+    // Otherwise a leading <script> or <style> is parsed into <head> and dropped without being reported
+    FORCE_BODY: true,
+    // The attribute hook removes and reports the same values first; DOMPurify's check stays as a backstop
+    SANITIZE_DOM: policy.preventClobbering,
+  };
+  const cache = cacheSize > 0 ? createLruCache<string, PurifyOutcome>(cacheSize) : undefined;
+
+  const purify = (input: string): PurifyOutcome => {
+    const report = createChangeReport('', input.length);
+    const blockedAttributes: PurifyOutcome['blockedAttributes'] = [];
+    const isClobbering = createClobberingCheck();
+
+    // Disallowed tags are shown as text rather than removed
+    if (!policy.stripIgnoreTag) {
+      input = escapeDisallowedTags(input, policy.allowedTags, () => addRule(report, 'tag-escaped'));
+    }
+
+    // Attributes removed with a more specific report than 'attribute-removed'
+    const reportedAttributes: Array<[Node, string]> = [];
+    const isReported = (node: Node, attribute: string) =>
+      reportedAttributes.some(([reportedNode, name]) => reportedNode === node && name === attribute);
+
+    const changeAttribute = (
+      node: Element,
+      data: UponSanitizeAttributeHookEvent,
+      value: string,
+      rule: SanitizationRule,
+      reason: string
+    ): void => {
+      report.changedAttributes.push({
+        tag: node.nodeName.toLowerCase(),
+        attribute: data.attrName,
+        from: data.attrValue,
+        to: value || null,
+        reason,
+      });
+      addRule(report, rule);
+      data.attrValue = value;
+      if (!value) {
+        data.keepAttr = false;
+        reportedAttributes.push([node, data.attrName]);
+      }
+    };
+
+    const filterIdentifiers = (node: Element, data: UponSanitizeAttributeHookEvent): void => {
+      if (data.attrName === 'class' && policy.allowedClasses) {
+        const { value, removed } = filterClasses(data.attrValue, node.nodeName, policy.allowedClasses);
+        if (removed.length) {
+          changeAttribute(node, data, value, 'class-removed', `class ${removed.map(name => `'${name}'`).join(', ')} not allowed`);
+        }
+      }
+      if (policy.idPrefix) {
+        const value = prefixIdentifiers(data.attrName, data.attrValue, policy.idPrefix);
+        if (value !== data.attrValue) {
+          changeAttribute(node, data, value, 'id-prefixed', `prefixed with '${policy.idPrefix}'`);
+        }
+      }
+      if (policy.preventClobbering && isNamedPropertyAttribute(data.attrName) && isClobbering(data.attrValue, node)) {
+        changeAttribute(node, data, '', 'clobbering-prevented', `'${data.attrValue}' would shadow a document or form property`);
+      }
+    };
+
+    const recordStyles = ({ css, removed }: CssSanitizationResult): string => {
+      if (removed.length) {
+        report.removedStyles.push(...removed);
+        addRule(report, 'style-removed');
+      }
+      return css;
+    };
+
+    // DOMPurify only knows a flat attribute list, so per-tag lists are enforced in a hook
+    const filterAttribute = (node: Element, data: UponSanitizeAttributeHookEvent): void => {
+      if (!isAttributeAllowed(policy.allowedAttributes, node.nodeName, data.attrName)) {
+        data.keepAttr = false;
+        return;
+      }
+      filterIdentifiers(node, data);
+      if (!data.keepAttr) {
+        return;
+      }
+      if (data.attrName === 'style') {
+        data.attrValue = recordStyles(sanitizeStyle(data.attrValue, policy.allowedStyles));
+        // An attribute without allowed declarations is removed and reported like any other
+        data.keepAttr = !!data.attrValue;
+        return;
+      }
+      if (isUrlAttribute(data.attrName)) {
+        const context = node.nodeName === 'IMG' ? 'image' : 'link';
+        const { url, reason } = sanitizeUrl(data.attrValue, policy.urlPolicy, context);
+        if (url === null) {
+          data.keepAttr = false;
+          reportedAttributes.push([node, data.attrName]);
+          report.blockedUrls.push({ url: data.attrValue, reason: reason as string });
+          addRule(report, 'url-blocked');
+          blockedAttributes.push({ tag: node.nodeName.toLowerCase(), attribute: data.attrName, reason: reason as string });
+        } else {
+          data.attrValue = url;
+        }
+      }
+    };
+
+    let depthExceeded = false;
+    const limitDepth = (node: Node, data: UponSanitizeElementHookEvent): void => {
+      if (!isElement(node) || !data.allowedTags[data.tagName] || !node.firstElementChild) return;
+      if (getElementDepth(node) >= policy.maxTagDepth) {
+        // Collapse everything below the limit into this element's text
+        const text = node.textContent;
+        node.textContent = text;
+        depthExceeded = true;
+        addRule(report, 'depth-flattened');
+      }
+    };
+
+    const filterStylesheet = (node: Node, data: UponSanitizeElementHookEvent): void => {
+      if (data.tagName === 'style' && data.allowedTags.style) {
+        node.textContent = recordStyles(sanitizeStylesheet(node.textContent ?? '', policy.allowedStyles));
+      }
+    };
+
+    const rewriteLink = (node: Element): void => {
+      if (isLink(node) && applyLinkPolicy(node, policy.linkPolicy)) {
+        addRule(report, 'link-rewritten');
+      }
+    };
+
+    DOMPurify.addHook('uponSanitizeAttribute', filterAttribute);
+    DOMPurify.addHook('uponSanitizeElement', limitDepth);
+    DOMPurify.addHook('uponSanitizeElement', filterStylesheet);
+    DOMPurify.addHook('afterSanitizeAttributes', rewriteLink);
+    try {
+      const output = DOMPurify.sanitize(input, purifyConfig) as unknown as string;
+      recordRemoved(report, DOMPurify.removed, isReported);
+      report.finalLength = output.length;
+      return { output, report, blockedAttributes, depthExceeded };
+    } finally {
+      DOMPurify.removeHook('afterSanitizeAttributes', rewriteLink);
+      DOMPurify.removeHook('uponSanitizeElement', filterStylesheet);
+      DOMPurify.removeHook('uponSanitizeElement', limitDepth);
+      DOMPurify.removeHook('uponSanitizeAttribute', filterAttribute);
+    }
+  };
+
+  return (input: string): PurifyOutcome => {
+    // DOMPurify returns input without '<' as it is, but only after parsing its config and running hooks
+    if (!input.includes('<')) {
+      return { output: input, report: createChangeReport('', input.length), blockedAttributes: [], depthExceeded: false };
+    }
+    if (!cache || input.length > MAX_CACHED_STRING_LENGTH) {
+      return purify(input);
+    }
+    const cached = cache.get(input);
+    if (cached) {
+      return cached;
+    }
+    const outcome = purify(input);
+    cache.set(input, outcome);
+    return outcome;
+  };
+};
@@ -0,0 +1,36 @@
+import { parentPort } from 'worker_threads';
+import { createPurifier, Purifier, PurifyOutcome, PurifyPolicy } from './purifier';
+import { createMarkdownPurifier } from './markdown';
+
+export interface PurifyRequest {
+  input: string;
+  policy: PurifyPolicy;
+}
+
+export type PurifyResponse = { outcome: PurifyOutcome } | { error: string };
+
+// Policies arrive as plain data, so purifiers are kept per serialized policy
+const purifiers = new Map<string, Purifier>();
+
+// Style patterns may be RegExps, which JSON.stringify would turn into {}
+const serializePattern = (_key: string, value: unknown) => value instanceof RegExp ? String(value) : value;
+
+const getPurifier = (policy: PurifyPolicy): Purifier => {
+  const key = JSON.stringify(policy, serializePattern);
+  let purify = purifiers.get(key);
+  if (!purify) {
+    purify = policy.format === 'markdown' ? createMarkdownPurifier(policy) : createPurifier(policy);
+    purifiers.set(key, purify);
+  }
+  return purify;
+};
+
+parentPort?.on('message', ({ input, policy }: PurifyRequest) => {
+  let response: PurifyResponse;
+  try {
+    response = { outcome: getPurifier(policy)(input) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,338 @@
+import {
+  CompiledSanitizer,
+  createSanitizer,
+  SanitizationError,
+  SanitizationRejectedError,
+  SanitizationValidationError
+} from './sanitizer';
+import {
+  FieldPattern,
+  SanitizationConfig,
+  SanitizationMode,
+  SanitizationResult,
+  SanitizationTarget,
+  TargetSanitizationResult,
+  RequestSanitizationMetadata
+} from '../types/sanitization';
+import { SanitizationLogger } from '../types/logging';
+import {
+  RequestLike,
+  RequestRoute,
+  RequestSanitizationOutcome,
+  RouteDecision,
+  SanitizeRequestOptions
+} from '../types/request';
+import { PolicyRoute, PolicySnapshot } from '../types/policy';
+import { ConfigName, getConfig } from '../config/sanitizationConfigs';
+import { createLogger } from './logger';
+import { compileRoutePattern, findRoute } from './routeMatcher';
+
+const DEFAULT_TARGETS: SanitizationTarget[] = ['body'];
+
+const resolveConfig = (config?: SanitizationConfig | ConfigName): SanitizationConfig =>
+  config
+    ? typeof config === 'string'
+      ? getConfig(config)
+      : config
+    : getConfig('base');
+
+const withSensitiveFields = (config: SanitizationConfig, fields?: FieldPattern[]): SanitizationConfig =>
+  fields?.length
+    ? { ...config, sensitiveFields: [...(config.sensitiveFields ?? []), ...fields] }
+    : config;
+
+const defaultRequestId = (req: RequestLike): string | undefined => {
+  const header = req.headers?.['x-request-id'];
+  const id = req.id ?? (Array.isArray(header) ? header[0] : header);
+  return id === undefined || id === null ? undefined : String(id);
+};
+
+const prefixPath = (target: SanitizationTarget, path: string): string =>
+  !path || path.startsWith('[') ? `${target}${path}` : `${target}.${path}`;
+
+export const getRequestPath = (req: RequestLike): string =>
+  req.path ?? req.url?.split('?')[0] ?? '/';
+
+// Some frameworks expose request properties as getters (Express 5 req.query), so a plain assignment would be ignored
+export const assignRequestValue = (target: object, key: string, value: unknown) => {
+  Object.defineProperty(target, key, { value, writable: true, configurable: true, enumerable: true });
+};
+
+interface RequestContext {
+  path: string;
+  mode: SanitizationMode;
+  logger: SanitizationLogger;
+}
+
+type TargetResults = Array<[SanitizationTarget, SanitizationResult<unknown>]>;
+
+// The options and compiled targets a request is sanitized with
+interface TargetSelection<TRequest extends RequestLike> {
+  options: SanitizeRequestOptions<TRequest>;
+  sanitizers: Map<SanitizationTarget, CompiledSanitizer>;
+}
+
+const compileTargets = <TRequest extends RequestLike>(
+  options: SanitizeRequestOptions<TRequest>
+): Map<SanitizationTarget, CompiledSanitizer> => {
+  const sanitizers = new Map<SanitizationTarget, CompiledSanitizer>();
+  for (const target of options.targets ?? DEFAULT_TARGETS) {
+    const config = withSensitiveFields(
+      resolveConfig(options.targetConfigs?.[target] ?? options.config),
+      options.sensitiveFields
+    );
+    sanitizers.set(target, createSanitizer(config, { schema: options.schema, cacheSize: options.cacheSize }));
+  }
+  return sanitizers;
+};
+
+// skipPaths predates routes and is kept as a list of patterns that skip
+const toSkipRoutes = (skipPaths: string[] = []): RequestRoute[] =>
+  skipPaths.map(path => ({ path: path.startsWith('/') ? path : `/${path}`, mode: 'skip' }));
+
+const decideRoute = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest>,
+  snapshot: PolicySnapshot | undefined
+): RouteDecision => {
+  const path = getRequestPath(req);
+  const defaultMode = options.mode ?? 'sanitize';
+  const sources: Array<[RouteDecision['source'], ReadonlyArray<RequestRoute | PolicyRoute>]> = [
+    ['skipPaths', toSkipRoutes(options.skipPaths)],
+    ['policy', snapshot?.routes ?? []],
+    ['routes', options.routes ?? []],
+  ];
+  // One match over all sources, so the most specific route wins wherever it comes from;
+  // findRoute keeps the first of equally specific routes, so source order only breaks ties
+  const candidates = sources.flatMap(([source, routes]) => routes.map((route, index) => ({ route, source, index })));
+  const match = findRoute(candidates.map(candidate => candidate.route), req.method, path);
+
+  if (match) {
+    const { route, source, index } = candidates[match.index];
+    const profile = route.profile ?? (source === 'policy' ? snapshot?.defaultProfile : undefined);
+    return { source, route, index, params: match.params, mode: route.mode ?? defaultMode, profile: profile ?? options.config };
+  }
+  return { source: 'default', params: {}, mode: defaultMode, profile: snapshot?.defaultProfile ?? options.config };
+};
+
+/**
+ * Reports which rule applies to a request: the matched route with its `:name` parameters, the
+ * profile and the mode. Meant for debugging a `routes`, `skipPaths` or `policy` setup.
+ */
+export const explainRoute = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest> = {}
+): RouteDecision => decideRoute(req, options, options.policy?.current);
+
+// Targets are compiled per route on first use, and again for each policy snapshot, so a
+// reloaded policy takes effect on the next request. Returns undefined for skipped routes.
+const createTargetSelector = <TRequest extends RequestLike>(
+  options: SanitizeRequestOptions<TRequest>
+): ((req: TRequest) => TargetSelection<TRequest> | undefined) => {
+  // Invalid patterns fail here rather than on the first request
+  [...toSkipRoutes(options.skipPaths), ...(options.routes ?? [])].forEach(route => compileRoutePattern(route.path));
+  // skipPaths used to match substrings, so 'health' skipped '/api/health'; now it only matches '/health'
+  const relativeSkipPaths = (options.skipPaths ?? []).filter(path => !path.startsWith('/'));
+  if (relativeSkipPaths.length) {
+    createLogger({ logger: options.logger, level: options.logLevel }).warn(
+      `skipPaths entries without a leading '/' match from the root: ${relativeSkipPaths.map(path => `'${path}'`).join(', ')}`,
+      { event: 'skip-path-relative', paths: relativeSkipPaths }
+    );
+  }
+
+  const compiled = new WeakMap<object, Map<RequestRoute | PolicyRoute | undefined, TargetSelection<TRequest>>>();
+  const select = (decision: RouteDecision, snapshot: PolicySnapshot | undefined): TargetSelection<TRequest> => {
+    const scope = snapshot ?? options;
+    let selections = compiled.get(scope);
+    if (!selections) {
+      selections = new Map();
+      compiled.set(scope, selections);
+    }
+    let selection = selections.get(decision.route);
+    if (!selection) {
+      const { profile, mode } = decision;
+      // Profile names were checked when the policy was loaded
+      const config = typeof profile === 'string' && snapshot?.profiles[profile] ? snapshot.profiles[profile] : profile;
+      const routeOptions: SanitizeRequestOptions<TRequest> = {
+        ...options,
+        config: config as SanitizationConfig | ConfigName | undefined,
+        mode: mode as SanitizationMode,
+      };
+      selection = { options: routeOptions, sanitizers: compileTargets(routeOptions) };
+      selections.set(decision.route, selection);
+    }
+    return selection;
+  };
+
+  // Without a policy the default targets are compiled up front, so a bad config fails here too
+  if (!options.policy) {
+    select({ source: 'default', params: {}, mode: options.mode ?? 'sanitize', profile: options.config }, undefined);
+  }
+
+  return req => {
+    const snapshot = options.policy?.current;
+    const decision = decideRoute(req, options, snapshot);
+    return decision.mode === 'skip' ? undefined : select(decision, snapshot);
+  };
+};
+
+const beginRequest = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest>
+): RequestContext => ({
+  path: getRequestPath(req),
+  mode: options.mode ?? 'sanitize',
+  logger: createLogger({
+    logger: options.logger,
+    level: options.logLevel,
+    context: { requestId: (options.getRequestId ?? defaultRequestId)(req) },
+  }),
+});
+
+// Only objects are sanitized; the rest of a request is left to the framework
+const hasValue = (value: unknown): value is object => !!value && typeof value === 'object';
+
+const completeRequest = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest>,
+  { path, mode, logger }: RequestContext,
+  results: TargetResults
+): RequestSanitizationOutcome => {
+  const values: RequestSanitizationOutcome['values'] = {};
+  const targets: RequestSanitizationMetadata['targets'] = {};
+
+  for (const [target, result] of results) {
+    const { data, sanitized, warnings, errors, fieldsModified = [], changes = [], droppedKeys = [] } = result;
+    if (mode === 'sanitize') {
+      values[target] = data;
+    }
+    targets[target] = { sanitized, warnings, errors, fieldsModified, changes, droppedKeys };
+  }
+
+  const entries = Object.entries(targets) as Array<[SanitizationTarget, TargetSanitizationResult]>;
+  const sanitized = entries.some(([, result]) => result.sanitized);
+  const warnings = entries.flatMap(([, result]) => result.warnings);
+  const errors = entries.flatMap(([, result]) => result.errors ?? []);
+  const fieldsModified = entries.flatMap(([target, result]) =>
+    result.fieldsModified.map(fieldPath => prefixPath(target, fieldPath))
+  );
+  const changes = entries.flatMap(([target, result]) =>
+    result.changes.map(change => ({ ...change, field: prefixPath(target, change.field) }))
+  );
+  const droppedKeys = entries.flatMap(([target, result]) =>
+    result.droppedKeys.map(dropped => ({ ...dropped, field: prefixPath(target, dropped.field) }))
+  );
+
+  let metadata: RequestSanitizationMetadata | undefined;
+  if (sanitized || warnings.length > 0) {
+    metadata = {
+      sanitized,
+      warnings,
+      errors: errors.length ? errors : undefined,
+      fieldsModified,
+      changes,
+      droppedKeys,
+      mode,
+      targets,
+      timestamp: new Date().toISOString(),
+    };
+    if (options.logWarnings && warnings.length > 0) {
+      logger.warn(`Sanitization warnings for ${req.method} ${path}`, {
+        event: 'sanitization-warnings',
+        method: req.method,
+        path,
+        warnings,
+      });
+    }
+    options.onSanitized?.(metadata);
+  }
+
+  let error: Error | undefined;
+  if (mode === 'reject' && (fieldsModified.length || droppedKeys.length)) {
+    error = new SanitizationRejectedError([...fieldsModified, ...droppedKeys.map(dropped => dropped.field)]);
+  } else if (errors.length && mode !== 'report') {
+    const invalidFields = changes.filter(change => change.rules.includes('pattern-mismatch')).map(change => change.field);
+    error = new SanitizationValidationError(invalidFields, errors);
+  }
+  if (error) {
+    options.onError?.(error, req);
+  }
+
+  // A failed request is not passed on, so its values are not written back either
+  return { skipped: false, values: error ? {} : values, metadata, error };
+};
+
+const failRequest = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest>,
+  error: unknown
+): RequestSanitizationOutcome => {
+  const sanitizationError = error instanceof SanitizationError
+    ? error
+    : new Error(`Request sanitization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  options.onError?.(sanitizationError, req);
+  return { skipped: false, values: {}, error: sanitizationError };
+};
+
+/**
+ * Framework-neutral core behind sanitizeRequest and the adapters. Compiles the configured
+ * targets for each route once and returns a function that reads them from a request-like object and returns
+ * the sanitized values, metadata and the error to fail the request with, leaving it to the
+ * caller to write them back.
+ */
+export const createRequestSanitizer = <TRequest extends RequestLike>(
+  options: SanitizeRequestOptions<TRequest> = {}
+) => {
+  const selectTargets = createTargetSelector(options);
+
+  return (req: TRequest): RequestSanitizationOutcome => {
+    try {
+      const selection = selectTargets(req);
+      if (!selection) return { skipped: true, values: {} };
+      const context = beginRequest(req, selection.options);
+
+      const results: TargetResults = [];
+      for (const [target, sanitizer] of selection.sanitizers) {
+        const value = req[target];
+        if (hasValue(value)) {
+          results.push([target, sanitizer.sanitize(value, { logger: context.logger })]);
+        }
+      }
+      return completeRequest(req, selection.options, context, results);
+    } catch (error) {
+      return failRequest(req, options, error);
+    }
+  };
+};
+
+// Same as createRequestSanitizer, but walks targets asynchronously, using `workerPool` for large strings
+export const createAsyncRequestSanitizer = <TRequest extends RequestLike>(
+  options: SanitizeRequestOptions<TRequest> = {}
+) => {
+  const selectTargets = createTargetSelector(options);
+
+  return async (req: TRequest): Promise<RequestSanitizationOutcome> => {
+    try {
+      const selection = selectTargets(req);
+      if (!selection) return { skipped: true, values: {} };
+      const context = beginRequest(req, selection.options);
+
+      const results: TargetResults = [];
+      for (const [target, sanitizer] of selection.sanitizers) {
+        const value = req[target];
+        if (hasValue(value)) {
+          const result = await sanitizer.sanitizeAsync(value, { logger: context.logger, workerPool: options.workerPool });
+          results.push([target, result]);
+        }
+      }
+      return completeRequest(req, selection.options, context, results);
+    } catch (error) {
+      return failRequest(req, options, error);
+    }
+  };
+};
+
+export const sanitizeRequestLike = <TRequest extends RequestLike>(
+  req: TRequest,
+  options: SanitizeRequestOptions<TRequest> = {}
+): RequestSanitizationOutcome => createRequestSanitizer(options)(req);
@@ -0,0 +1,111 @@
+import { RouteRule } from '../types/policy';
+
+export interface RouteMatch<TRoute extends RouteRule<unknown> = RouteRule> {
+  route: TRoute;
+  // Position of the route in the list it was found in
+  index: number;
+  params: Record<string, string>;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  params: string[];
+  // One score per segment: literal 3, glob 2, parameter or '*' 1, '**' 0
+  scores: number[];
+}
+
+const patterns = new Map<string, CompiledPattern>();
+
+// Malformed escapes are left as they are rather than failing the request
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const compileSegment = (segment: string, params: string[]): [string, number] => {
+  if (segment === '**') return ['(?:/[^/]+)*', 0];
+  if (segment === '*') return ['/[^/]+', 1];
+  if (segment.startsWith(':')) {
+    const name = segment.slice(1);
+    if (!/^\w+$/.test(name)) throw new Error(`invalid parameter name '${name}'`);
+    if (params.includes(name)) throw new Error(`duplicate parameter '${name}'`);
+    params.push(name);
+    return ['/([^/]+)', 1];
+  }
+  if (segment.includes(':')) throw new Error(`parameters must take up a whole segment, found '${segment}'`);
+  return segment.includes('*')
+    ? [`/${segment.split('*').map(escapeRegExp).join('[^/]*')}`, 2]
+    : [`/${escapeRegExp(segment)}`, 3];
+};
+
+/**
+ * Compiles an Express-style path pattern: `:name` captures a segment, `*` matches one segment
+ * (or part of one, as in `*.json`) and `**` any number of segments. A pattern also matches
+ * everything below it, and matching ignores case and trailing slashes like Express does.
+ */
+export const compileRoutePattern = (path: string): CompiledPattern => {
+  let compiled = patterns.get(path);
+  if (compiled) return compiled;
+  if (!path.startsWith('/')) throw new Error(`Invalid route pattern '${path}': must start with '/'`);
+
+  const params: string[] = [];
+  const scores: number[] = [];
+  let source = '';
+  try {
+    for (const segment of path.split('/').filter(Boolean)) {
+      const [segmentSource, score] = compileSegment(segment, params);
+      source += segmentSource;
+      scores.push(score);
+    }
+  } catch (error) {
+    throw new Error(`Invalid route pattern '${path}': ${(error as Error).message}`);
+  }
+
+  compiled = { regex: new RegExp(`^${source}(?:/.*)?$`, 'i'), params, scores };
+  patterns.set(path, compiled);
+  return compiled;
+};
+
+const matchesMethod = (route: RouteRule<unknown>, method?: string): boolean =>
+  !route.method || [route.method].flat().some(candidate => candidate.toUpperCase() === method?.toUpperCase());
+
+// Compares segment by segment, so '/users/new' beats '/users/:id' and both beat '/users/**';
+// a longer pattern beats its own prefix, and naming the method breaks a remaining tie
+const compareSpecificity = (a: RouteRule<unknown>, b: RouteRule<unknown>): number => {
+  const aScores = compileRoutePattern(a.path).scores;
+  const bScores = compileRoutePattern(b.path).scores;
+  for (let i = 0; i < Math.min(aScores.length, bScores.length); i++) {
+    if (aScores[i] !== bScores[i]) return aScores[i] - bScores[i];
+  }
+  return aScores.length - bScores.length || Number(!!a.method) - Number(!!b.method);
+};
+
+/**
+ * Finds the most specific route for a request, with the values of its `:name` parameters.
+ * Among equally specific routes the first one wins.
+ */
+export const findRoute = <TRoute extends RouteRule<unknown>>(
+  routes: readonly TRoute[],
+  method: string | undefined,
+  path: string
+): RouteMatch<TRoute> | undefined => {
+  let best: RouteMatch<TRoute> | undefined;
+  routes.forEach((route, index) => {
+    if (!matchesMethod(route, method)) return;
+    const { regex, params } = compileRoutePattern(route.path);
+    const match = regex.exec(path.split('?')[0]);
+    if (!match || (best && compareSpecificity(route, best.route) <= 0)) return;
+
+    best = {
+      route,
+      index,
+      params: Object.fromEntries(params.map((name, position) => [name, decode(match[position + 1])])),
+    };
+  });
+  return best;
+};
@@ -1,11 +1,41 @@
-import DOMPurify from 'isomorphic-dompurify';
 import {
+  DroppedKeyReason,
+  KeyPolicy,
+  SanitizeDataOptions,
   SanitizationConfig,
+  SanitizationLimit,
+  SanitizationLimits,
   SanitizationResult,
   SanitizationMetadata,
-  SanitizableInput
+  FieldChangeReport,
+  SanitizableInput,
+  AsyncSanitizeOptions,
+  SanitizedStream,
+  SanitizerOptions,
+  SanitizeCallOptions,
+  TypeHandler
 } from '../types/sanitization';
 import { SENSITIVE_FIELDS } from '../constants/sensitiveFields';
+import { DANGEROUS_KEYS } from '../constants/dangerousKeys';
+import { stripTags } from './markup';
+import { createFieldMatcher, createSubtreeMatcher, FieldMatcher } from './fieldMatcher';
+import { compileFieldSchema, CompiledFieldRule, FieldSchemaLookup } from './fieldSchema';
+import { sanitizeUrl } from './urlPolicy';
+import {
+  addRule,
+  combineChangeReport,
+  createChangeReport,
+  finalizeChangeReport,
+  mergeChangeReport
+} from './changeReport';
+import { createPurifier, pickPurifyPolicy, Purifier, PurifyOutcome, PurifyPolicy } from './purifier';
+import { createMarkdownPurifier } from './markdown';
+import { createLogger } from './logger';
+import { stripDangerousCharacters } from './encoders';
+import { findTypeHandler, isMap, isPlainObject, isSet } from './typeHandlers';
+import { SanitizationLogger } from '../types/logging';
+import type { PurifyPool } from './workerPool';
+import { PLAINTEXT_CONFIG } from '../config/sanitizationConfigs';
 
 export class SanitizationError extends Error {
   constructor(message: string, public field?: string) {
@@ -14,136 +44,635 @@ export class SanitizationError extends Error {
   }
 }
 
-const logger = {
-  debug: (...args: any[]) =>  console.debug(...args),
-  error: (...args: any[]) => console.error(...args),
-  info: (...args: any[]) => console.info(...args),
-  warn: (...args: any[]) => console.warn(...args),
+export class SanitizationRejectedError extends SanitizationError {
+  public readonly status = 400;
+  public readonly statusCode = 400;
+
+  constructor(public fields: string[]) {
+    super(`Request rejected: unsafe content in ${fields.join(', ')}`, fields[0]);
+    this.name = 'SanitizationRejectedError';
+  }
+
+  toJSON() {
+    return { error: this.name, message: this.message, fields: this.fields };
+  }
+}
+
+// Values that fail a pattern in the field schema; like a rejection, this is the client's fault
+export class SanitizationValidationError extends SanitizationError {
+  public readonly status = 400;
+  public readonly statusCode = 400;
+
+  constructor(public fields: string[], public errors: string[]) {
+    super(`Request rejected: invalid values${fields.length ? ` in ${fields.join(', ')}` : ''}`, fields[0]);
+    this.name = 'SanitizationValidationError';
+  }
+
+  toJSON() {
+    return { error: this.name, message: this.message, fields: this.fields };
+  }
+}
+
+export class SanitizationLimitError extends SanitizationError {
+  public readonly status = 400;
+  public readonly statusCode = 400;
+
+  constructor(message: string, public path: string, public limit: SanitizationLimit) {
+    super(message, path);
+    this.name = 'SanitizationLimitError';
+  }
+}
+
+export class SanitizationAbortedError extends SanitizationError {
+  constructor(message: string, public reason: 'aborted' | 'timeout') {
+    super(message);
+    this.name = 'SanitizationAbortedError';
+  }
+}
+
+// Characters a valid URL always percent-encodes
+const UNENCODED_URL_CHARACTERS = /[\s"<>`]/;
+
+export const DEFAULT_LIMITS: Required<SanitizationLimits> = {
+  maxDepth: 32,
+  maxKeys: 10000,
+  maxArrayLength: 10000,
+  maxTotalStringBytes: 1024 * 1024,
+};
+
+// Settings that only apply when set
+type OptionalSettings = 'allowedClasses' | 'idPrefix';
+
+type ResolvedConfig = Required<Omit<SanitizationConfig, OptionalSettings>> & Pick<SanitizationConfig, OptionalSettings> & {
+  limits: Required<SanitizationLimits>;
+  isUrlField: FieldMatcher;
+  purify: Purifier;
+  purifyPolicy: PurifyPolicy;
+};
+
+const resolveConfig = (config: SanitizationConfig, cacheSize = 0): ResolvedConfig => {
+  const resolved = {
+    format: config.format ?? 'html',
+    allowedTags: config.allowedTags || [],
+    allowedAttributes: config.allowedAttributes || {},
+    allowedStyles: config.allowedStyles || {},
+    allowedClasses: config.allowedClasses,
+    idPrefix: config.idPrefix,
+    preventClobbering: config.preventClobbering ?? true,
+    stripIgnoreTag: config.stripIgnoreTag ?? true,
+    stripIgnoreTagBody: config.stripIgnoreTagBody ?? false,
+    allowEmptyTags: config.allowEmptyTags ?? false,
+    maxTagDepth: config.maxTagDepth ?? 10,
+    maxStringLength: config.maxStringLength ?? 10000,
+    sensitiveFields: config.sensitiveFields || [],
+    urlPolicy: config.urlPolicy || {},
+    linkPolicy: config.linkPolicy || {},
+    limits: { ...DEFAULT_LIMITS, ...config.limits },
+    keyPolicy: config.keyPolicy || {},
+    isUrlField: createFieldMatcher(config.urlPolicy?.urlFields || []),
+  };
+  const purify = resolved.format === 'markdown'
+    ? createMarkdownPurifier(resolved, cacheSize)
+    : createPurifier(resolved, cacheSize);
+  return { ...resolved, purify, purifyPolicy: pickPurifyPolicy(resolved) };
+};
+
+// Everything derived from the config and options; read-only, so it can be shared by concurrent calls
+interface CompiledPolicy {
+  config: ResolvedConfig;
+  isSensitiveField: FieldMatcher;
+  findFieldRule: FieldSchemaLookup;
+  isIncludedField?: FieldMatcher;
+  isExcludedField?: FieldMatcher;
+  isAllowedKey?: FieldMatcher;
+  isDeniedKey?: FieldMatcher;
+  typeHandlers: TypeHandler[];
+  logger?: SanitizationLogger;
+  resolveRuleConfig: (config: SanitizationConfig) => ResolvedConfig;
+}
+
+const compilePolicy = (config: SanitizationConfig, options: SanitizerOptions = {}): CompiledPolicy => {
+  const resolved = resolveConfig(config, options.cacheSize);
+  const { allowedKeys, deniedKeys } = resolved.keyPolicy;
+  const ruleConfigs = new Map<SanitizationConfig, ResolvedConfig>();
+
+  return {
+    config: resolved,
+    isSensitiveField: createFieldMatcher([...SENSITIVE_FIELDS, ...resolved.sensitiveFields]),
+    findFieldRule: compileFieldSchema(options.schema),
+    isIncludedField: options.include && createSubtreeMatcher(options.include),
+    isExcludedField: options.exclude && createSubtreeMatcher(options.exclude),
+    isAllowedKey: allowedKeys && createFieldMatcher(allowedKeys),
+    isDeniedKey: deniedKeys && createFieldMatcher(deniedKeys),
+    typeHandlers: options.typeHandlers ?? [],
+    logger: options.logger,
+    resolveRuleConfig: (ruleConfig: SanitizationConfig) => {
+      let resolvedRule = ruleConfigs.get(ruleConfig);
+      if (!resolvedRule) {
+        resolvedRule = resolveConfig(ruleConfig, options.cacheSize);
+        ruleConfigs.set(ruleConfig, resolvedRule);
+      }
+      return resolvedRule;
+    },
+  };
+};
+
+const DEFAULT_YIELD_EVERY = 1000;
+
+// A large string the walk asks the caller to purify, so the async path can hand it to a worker
+interface PurifyJob {
+  input: string;
+  config: ResolvedConfig;
+}
+
+// The walk yields once per field so the async path can pause it; the sync path runs it straight through
+type Walk = Generator<PurifyJob | void, any, PurifyOutcome | undefined>;
+
+const runWalk = (walk: Walk): any => {
+  let step = walk.next();
+  while (!step.done) {
+    step = walk.next(step.value ? step.value.config.purify(step.value.input) : undefined);
+  }
+  return step.value;
 };
 
+// Falls back to purifying inline when the queue is full or the worker fails
+const purifyOnPool = async (job: PurifyJob, pool: PurifyPool): Promise<PurifyOutcome> => {
+  const pending = pool.purify(job.input, job.config.purifyPolicy);
+  if (pending) {
+    try {
+      return await pending;
+    } catch {
+      // Logged by the pool
+    }
+  }
+  return job.config.purify(job.input);
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+type AsyncRunner = (walk: Walk) => Promise<any>;
+
+// Runs walks to completion, handing the event loop back every `yieldEvery` fields counted across all of them
+const createAsyncRunner = (options: AsyncSanitizeOptions): AsyncRunner => {
+  const { yieldEvery = DEFAULT_YIELD_EVERY, signal, timeoutMs, workerPool } = options;
+  const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+  let fields = 0;
+
+  const checkAborted = () => {
+    if (signal?.aborted) {
+      throw new SanitizationAbortedError('Sanitization aborted', 'aborted');
+    }
+    if (deadline !== undefined && Date.now() > deadline) {
+      throw new SanitizationAbortedError(`Sanitization timed out after ${timeoutMs}ms`, 'timeout');
+    }
+  };
+
+  return async walk => {
+    checkAborted();
+    let step = walk.next();
+    while (!step.done) {
+      if (step.value) {
+        const outcome = await purifyOnPool(step.value, workerPool as PurifyPool);
+        checkAborted();
+        step = walk.next(outcome);
+        continue;
+      }
+      if (++fields % yieldEvery === 0) {
+        await yieldToEventLoop();
+        checkAborted();
+      }
+      step = walk.next();
+    }
+    return step.value;
+  };
+};
+
+// Walks one input; a new instance is created for every call, so metadata is never shared
 class Sanitizer {
-  private config: Required<SanitizationConfig>;
+  private config: ResolvedConfig;
   private metadata: SanitizationMetadata;
+  // Entries of metadata.changes by field
+  private changesByField = new Map<string, FieldChangeReport>();
+  private isSensitiveField: FieldMatcher;
+  private findFieldRule: FieldSchemaLookup;
+  private isIncludedField?: FieldMatcher;
+  private isExcludedField?: FieldMatcher;
+  private isAllowedKey?: FieldMatcher;
+  private isDeniedKey?: FieldMatcher;
+  private typeHandlers: TypeHandler[];
+  private resolveRuleConfig: CompiledPolicy['resolveRuleConfig'];
+  private logger: SanitizationLogger;
+  // Containers on the current path, for depth and cycle checks
+  private ancestors = new Set<object>();
+  private keyCount = 0;
+  private stringBytes = 0;
+  // Set on the async path when there is a worker pool
+  private offloadThreshold?: number;
 
-  constructor(config: SanitizationConfig) {
-    this.config = {
-      allowedTags: config.allowedTags || [],
-      allowedAttributes: config.allowedAttributes || {},
-      stripIgnoreTag: config.stripIgnoreTag ?? true,
-      stripIgnoreTagBody: config.stripIgnoreTagBody ?? false,
-      allowEmptyTags: config.allowEmptyTags ?? false,
-      maxTagDepth: config.maxTagDepth ?? 10,
-      maxStringLength: config.maxStringLength ?? 10000,
-    };
+  constructor(policy: CompiledPolicy, logger?: SanitizationLogger) {
+    this.config = policy.config;
+    this.isSensitiveField = policy.isSensitiveField;
+    this.findFieldRule = policy.findFieldRule;
+    this.isIncludedField = policy.isIncludedField;
+    this.isExcludedField = policy.isExcludedField;
+    this.isAllowedKey = policy.isAllowedKey;
+    this.isDeniedKey = policy.isDeniedKey;
+    this.typeHandlers = policy.typeHandlers;
+    this.resolveRuleConfig = policy.resolveRuleConfig;
+    this.logger = logger ?? policy.logger ?? createLogger();
     
     this.metadata = {
       sanitized: false,
       warnings: [],
       errors: [],
       fieldsModified: [],
+      changes: [],
+      droppedKeys: [],
     };
   }
 
-  private sanitizeString(input: string, fieldName?: string): string {
+  private purify(
+    input: string,
+    config: ResolvedConfig,
+    report: FieldChangeReport,
+    fieldName?: string,
+    purified?: PurifyOutcome
+  ): string {
+    const { output, report: purifyReport, blockedAttributes, depthExceeded } = purified ?? config.purify(input);
+    combineChangeReport(report, purifyReport);
+    for (const { tag, attribute, reason } of blockedAttributes) {
+      this.metadata.warnings.push(`Blocked URL in field '${fieldName || 'unknown'}' (<${tag} ${attribute}>): ${reason}`);
+    }
+    if (depthExceeded) {
+      this.metadata.warnings.push(
+        `Markup in field '${fieldName || 'unknown'}' exceeded maxTagDepth of ${config.maxTagDepth}; deeper tags were flattened to text`
+      );
+    }
+    return output;
+  }
+
+  private sanitizeString(input: string, config: ResolvedConfig, fieldName?: string, purified?: PurifyOutcome): string {
     try {
       const originalLength = input.length;
+      const truncated = originalLength > config.maxStringLength;
+      const report = createChangeReport(fieldName || '', originalLength);
       
       // Check string length
-      if (originalLength > this.config.maxStringLength) {
+      if (truncated) {
+        addRule(report, 'truncated');
         this.metadata.warnings.push(
-          `String in field '${fieldName || 'unknown'}' truncated from ${originalLength} to ${this.config.maxStringLength} characters`
+          `String in field '${fieldName || 'unknown'}' truncated from ${originalLength} to ${config.maxStringLength} characters`
         );
-        input = input.substring(0, this.config.maxStringLength);
+        input = input.substring(0, config.maxStringLength);
         this.metadata.sanitized = true;
       }
 
-      // Configure DOMPurify
-      const purifyConfig: any = {
-        ALLOWED_TAGS: this.config.allowedTags,
-        ALLOWED_ATTR: Object.values(this.config.allowedAttributes).flat(),
-        KEEP_CONTENT: !this.config.stripIgnoreTagBody,
-        ALLOW_EMPTY_TAGS: this.config.allowEmptyTags,
-      };
-
-      const sanitized = DOMPurify.sanitize(input, purifyConfig) as unknown as string;;
+      const sanitized = this.purify(input, config, report, fieldName, purified);
       
-      if (sanitized !== input) {
+      if (sanitized !== input || truncated) {
         this.metadata.sanitized = true;
         if (fieldName) {
           this.metadata.fieldsModified.push(fieldName);
         }
       }
 
+      finalizeChangeReport(report, sanitized, sanitized !== input || truncated);
+      mergeChangeReport(this.metadata.changes, this.changesByField, report);
+
       return sanitized;
     } catch (error) {
       const message = `Failed to sanitize string in field '${fieldName || 'unknown'}': ${error instanceof Error ? error.message : 'Unknown error'}`;
       this.metadata.errors = this.metadata.errors || [];
       this.metadata.errors.push(message);
-      logger.error(message);
+      this.logger.error(message, { event: 'sanitize-failed', field: fieldName });
       throw new SanitizationError(message, fieldName);
     }
   }
 
-  private sanitizeValue(value: any, fieldName?: string): any {
+  private *applyFieldRule(value: any, rule: CompiledFieldRule, fieldName: string): Walk {
+    if (rule.type === 'skip') {
+      return value;
+    }
+
+    // The rule's config also applies to nested fields unless they have a rule of their own
+    if (rule.type === 'config') {
+      return yield* this.sanitizeContent(value, this.resolveRuleConfig(rule.config), fieldName);
+    }
+
+    rule.pattern.lastIndex = 0;
+    if (typeof value === 'string' && !rule.pattern.test(value)) {
+      this.metadata.errors = this.metadata.errors || [];
+      this.metadata.errors.push(`Field '${fieldName}' does not match the required pattern ${rule.pattern}`);
+      const report = createChangeReport(fieldName, value.length);
+      addRule(report, 'pattern-mismatch');
+      mergeChangeReport(this.metadata.changes, this.changesByField, report);
+    }
+    return yield* this.sanitizeContent(value, this.resolveRuleConfig(PLAINTEXT_CONFIG), fieldName);
+  }
+
+  private *sanitizeValue(value: any, fieldName?: string, config: ResolvedConfig = this.config): Walk {
     if (value === null || value === undefined) {
       return value;
     }
 
+    if (fieldName && this.isExcludedField?.(fieldName)) {
+      return value;
+    }
+
+    // Outside the include list only containers are walked, looking for included fields below them
+    if (this.isIncludedField && !(fieldName && this.isIncludedField(fieldName))) {
+      return typeof value === 'object' ? yield* this.sanitizeChildren(value, config, fieldName) : value;
+    }
+
     // Skip sensitive fields
-    if (fieldName && SENSITIVE_FIELDS.includes(fieldName as any)) {
-      logger.debug(`Skipping sanitization for sensitive field: ${fieldName}`);
+    if (fieldName && this.isSensitiveField(fieldName)) {
+      this.logger.debug(`Skipping sanitization for sensitive field: ${fieldName}`, {
+        event: 'sensitive-field-skipped',
+        field: fieldName,
+      });
       return value;
     }
 
+    const rule = fieldName ? this.findFieldRule(fieldName) : undefined;
+    if (rule && fieldName) {
+      return yield* this.applyFieldRule(value, rule, fieldName);
+    }
+
+    return yield* this.sanitizeContent(value, config, fieldName);
+  }
+
+  // The value is not purified, so a URL that could break out of an attribute or into markup is blocked
+  private sanitizeUrlField(input: string, config: ResolvedConfig, fieldName: string): string {
+    const checked = sanitizeUrl(input, config.urlPolicy);
+    const { url, reason } = checked.url !== null && UNENCODED_URL_CHARACTERS.test(checked.url)
+      ? { url: null, reason: 'URL contains characters that must be percent-encoded' }
+      : checked;
+    const sanitized = url ?? '';
+    const report = createChangeReport(fieldName, input.length);
+    if (url === null) {
+      this.metadata.warnings.push(`Blocked URL in field '${fieldName}': ${reason}`);
+      report.blockedUrls.push({ url: input, reason: reason as string });
+      addRule(report, 'url-blocked');
+    }
+    if (sanitized !== input) {
+      this.metadata.sanitized = true;
+      this.metadata.fieldsModified.push(fieldName);
+    }
+    finalizeChangeReport(report, sanitized, sanitized !== input);
+    mergeChangeReport(this.metadata.changes, this.changesByField, report);
+    return sanitized;
+  }
+
+  private *sanitizeContent(value: any, config: ResolvedConfig, fieldName?: string): Walk {
     if (typeof value === 'string') {
-      return this.sanitizeString(value, fieldName);
+      this.countStringBytes(value, fieldName);
+      const isUrl = !!fieldName && config.isUrlField(fieldName);
+      // Strings are purified after truncation, so that is what goes to the worker
+      const purified = !isUrl && this.shouldOffload(value, config)
+        ? yield { input: value.substring(0, config.maxStringLength), config }
+        : undefined;
+      const sanitized = isUrl
+        ? this.sanitizeUrlField(value, config, fieldName as string)
+        : this.sanitizeString(value, config, fieldName, purified);
+      this.metadata.finalSize = (this.metadata.finalSize ?? 0) + Buffer.byteLength(sanitized);
+      return sanitized;
     }
 
-    if (Array.isArray(value)) {
-      return value.map((item, index) => 
-        this.sanitizeValue(item, fieldName ? `${fieldName}[${index}]` : `[${index}]`)
+    return yield* this.sanitizeChildren(value, config, fieldName);
+  }
+
+  private shouldOffload(value: string, config: ResolvedConfig): boolean {
+    return this.offloadThreshold !== undefined
+      && Math.min(value.length, config.maxStringLength) >= this.offloadThreshold;
+  }
+
+  private countStringBytes(value: string, fieldName?: string): void {
+    const { maxTotalStringBytes } = this.config.limits;
+    const bytes = Buffer.byteLength(value);
+    this.metadata.originalSize = (this.metadata.originalSize ?? 0) + bytes;
+    this.stringBytes += bytes;
+    if (this.stringBytes > maxTotalStringBytes) {
+      throw new SanitizationLimitError(
+        `Total string size exceeds ${maxTotalStringBytes} bytes at '${fieldName || 'root'}'`,
+        fieldName || 'root',
+        'maxTotalStringBytes'
       );
     }
+  }
+
+  // Objects taken care of by a type handler only count towards depth, Map and Set sizes count as keys and items
+  private enterContainer(value: object, fieldName: string | undefined, handled: boolean): void {
+    const { maxDepth, maxKeys, maxArrayLength } = this.config.limits;
+    const path = fieldName || 'root';
+    const fail = (message: string, limit: SanitizationLimit) => {
+      throw new SanitizationLimitError(`${message} at '${path}'`, path, limit);
+    };
+
+    if (this.ancestors.has(value)) {
+      fail('Circular reference', 'circular');
+    }
+    if (this.ancestors.size >= maxDepth) {
+      fail(`Nesting deeper than ${maxDepth} levels`, 'maxDepth');
+    }
+    if (Array.isArray(value) || isSet(value)) {
+      const length = Array.isArray(value) ? value.length : value.size;
+      if (length > maxArrayLength) {
+        fail(`Array of ${length} items exceeds ${maxArrayLength}`, 'maxArrayLength');
+      }
+    } else if (isMap(value) || !handled) {
+      this.keyCount += isMap(value) ? value.size : Object.keys(value).length;
+      if (this.keyCount > maxKeys) {
+        fail(`More than ${maxKeys} keys in total`, 'maxKeys');
+      }
+    }
+    this.ancestors.add(value);
+  }
+
+  private dropKey(field: string, key: string, reason: DroppedKeyReason): null {
+    this.metadata.droppedKeys.push({ field, key, reason });
+    this.metadata.sanitized = true;
+    if (reason === 'dangerous') {
+      this.metadata.warnings.push(`Dropped dangerous key '${field}'`);
+    }
+    return null;
+  }
+
+  // Returns the key to copy the value under, or null when the key is dropped
+  private sanitizeKey(rawKey: string, parentPath: string | undefined, source: object, target: object): string | null {
+    const policy: KeyPolicy = this.config.keyPolicy;
+    const field = parentPath ? `${parentPath}.${rawKey}` : rawKey;
+    const key = policy.sanitizeKeys ? stripDangerousCharacters(stripTags(rawKey)) : rawKey;
+
+    if (DANGEROUS_KEYS.includes(key)) {
+      if (policy.dangerousKeys === 'reject') {
+        throw new SanitizationRejectedError([field]);
+      }
+      return this.dropKey(field, rawKey, 'dangerous');
+    }
+    if (this.isDeniedKey?.(field)) {
+      return this.dropKey(field, rawKey, 'denied');
+    }
+    if (this.isAllowedKey && !this.isAllowedKey(field)) {
+      return this.dropKey(field, rawKey, 'not-allowed');
+    }
+    if (key === rawKey) {
+      return key;
+    }
+
+    if (!key) {
+      return this.dropKey(field, rawKey, 'empty');
+    }
+    // Keys that were already clean win over keys that only become equal to them once sanitized
+    if (Object.prototype.hasOwnProperty.call(source, key) || Object.prototype.hasOwnProperty.call(target, key)) {
+      return this.dropKey(field, rawKey, 'duplicate');
+    }
+    const report = createChangeReport(field, rawKey.length);
+    addRule(report, 'key-sanitized');
+    finalizeChangeReport(report, key, true);
+    mergeChangeReport(this.metadata.changes, this.changesByField, report);
+    this.metadata.sanitized = true;
+    this.metadata.fieldsModified.push(field);
+    return key;
+  }
+
+  private *sanitizeChildren(value: any, config: ResolvedConfig, fieldName?: string): Walk {
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const handler = findTypeHandler(value, this.typeHandlers);
+    this.enterContainer(value, fieldName, !!handler);
+    try {
+      if (handler) {
+        return handler.sanitize(value, {
+          field: fieldName,
+          sanitize: (item, field) => runWalk(this.sanitizeValue(item, field, config)),
+        });
+      }
 
-    if (value && typeof value === 'object') {
-      const sanitizedObj: any = {};
-      for (const [key, val] of Object.entries(value)) {
+      if (Array.isArray(value)) {
+        const sanitizedItems = new Array(value.length);
+        for (let index = 0; index < value.length; index++) {
+          yield;
+          sanitizedItems[index] = yield* this.sanitizeValue(
+            value[index], fieldName ? `${fieldName}[${index}]` : `[${index}]`, config
+          );
+        }
+        return sanitizedItems;
+      }
+
+      // Class instances keep their prototype so their methods still work
+      const sanitizedObj: any = !isPlainObject(value)
+        ? Object.create(Object.getPrototypeOf(value))
+        : this.config.keyPolicy.nullPrototype ? Object.create(null) : {};
+      for (const [rawKey, val] of Object.entries(value)) {
+        const key = this.sanitizeKey(rawKey, fieldName, value, sanitizedObj);
+        if (key === null) continue;
         const fullFieldName = fieldName ? `${fieldName}.${key}` : key;
-        sanitizedObj[key] = this.sanitizeValue(val, fullFieldName);
+        yield;
+        sanitizedObj[key] = yield* this.sanitizeValue(val, fullFieldName, config);
       }
       return sanitizedObj;
+    } finally {
+      this.ancestors.delete(value);
     }
-
-    return value;
   }
 
-  public sanitize<T extends SanitizableInput>(input: T): SanitizationResult<T> {
+  private reset(): void {
     this.metadata = {
       sanitized: false,
       warnings: [],
       errors: [],
       fieldsModified: [],
-      originalSize: JSON.stringify(input).length,
+      changes: [],
+      droppedKeys: [],
+      originalSize: 0,
+      finalSize: 0,
+    };
+    this.changesByField.clear();
+    this.ancestors.clear();
+    this.keyCount = 0;
+    this.stringBytes = 0;
+  }
+
+  private toResult<T>(data: T): SanitizationResult<T> {
+    return { data, ...this.getResult() };
+  }
+
+  private getResult(): Omit<SanitizationResult<unknown>, 'data'> {
+    return {
+      sanitized: this.metadata.sanitized,
+      warnings: this.metadata.warnings,
+      errors: this.metadata.errors?.length ? this.metadata.errors : undefined,
+      fieldsModified: this.metadata.fieldsModified,
+      changes: this.metadata.changes,
+      droppedKeys: this.metadata.droppedKeys,
     };
+  }
+
+  private toSanitizationError(error: unknown): SanitizationError {
+    if (error instanceof SanitizationError) {
+      return error;
+    }
+
+    const message = `Sanitization failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    this.logger.error(message, { event: 'sanitize-failed' });
+    return new SanitizationError(message);
+  }
+
+  public sanitize<T extends SanitizableInput>(input: T): SanitizationResult<T> {
+    this.reset();
+    try {
+      return this.toResult(runWalk(this.sanitizeValue(input)) as T);
+    } catch (error) {
+      throw this.toSanitizationError(error);
+    }
+  }
 
+  // Same walk as sanitize, handing the event loop back every `yieldEvery` fields
+  public async sanitizeAsync<T extends SanitizableInput>(
+    input: T,
+    options: AsyncSanitizeOptions = {}
+  ): Promise<SanitizationResult<T>> {
+    const run = createAsyncRunner(options);
+    this.reset();
+    this.offloadThreshold = options.workerPool?.threshold;
     try {
-      const sanitizedData = this.sanitizeValue(input) as T;
-      this.metadata.finalSize = JSON.stringify(sanitizedData).length;
-
-      return {
-        data: sanitizedData,
-        sanitized: this.metadata.sanitized,
-        warnings: this.metadata.warnings,
-        errors: this.metadata.errors?.length ? this.metadata.errors : undefined,
-      };
+      return this.toResult((await run(this.sanitizeValue(input))) as T);
     } catch (error) {
-      if (error instanceof SanitizationError) {
-        throw error;
+      throw this.toSanitizationError(error);
+    }
+  }
+
+  /**
+   * Sanitizes records one at a time under the paths they would have as elements of an
+   * array, so the metadata matches sanitizing the whole array at once. Limits apply to
+   * each record on its own.
+   */
+  public sanitizeStream<T>(records: AsyncIterable<T>, options: AsyncSanitizeOptions = {}): SanitizedStream<T> {
+    this.reset();
+    this.offloadThreshold = options.workerPool?.threshold;
+
+    const sanitized = this.sanitizeRecords(records, createAsyncRunner(options));
+
+    return {
+      [Symbol.asyncIterator]: () => sanitized,
+      getResult: () => this.getResult(),
+    };
+  }
+
+  private async *sanitizeRecords<T>(records: AsyncIterable<T>, run: AsyncRunner): AsyncGenerator<T> {
+    let index = 0;
+    try {
+      for await (const record of records) {
+        this.ancestors.clear();
+        this.keyCount = 0;
+        this.stringBytes = 0;
+        yield (await run(this.sanitizeValue(record, `[${index++}]`))) as T;
       }
-      
-      const message = `Sanitization failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      logger.error(message);
-      throw new SanitizationError(message);
+    } catch (error) {
+      throw this.toSanitizationError(error);
     }
   }
 
@@ -152,18 +681,50 @@ class Sanitizer {
   }
 }
 
+export interface CompiledSanitizer {
+  sanitize: <T extends SanitizableInput>(data: T, options?: SanitizeCallOptions) => SanitizationResult<T>;
+  sanitizeString: (input: string, options?: SanitizeCallOptions) => SanitizationResult<string>;
+  sanitizeAsync: <T extends SanitizableInput>(data: T, options?: AsyncSanitizeOptions) => Promise<SanitizationResult<T>>;
+  sanitizeStream: <T>(records: AsyncIterable<T>, options?: AsyncSanitizeOptions) => SanitizedStream<T>;
+}
+
+/**
+ * Compiles a config once for reuse on hot paths. The returned sanitizer keeps no state
+ * between calls, so one instance can serve every request.
+ */
+export const createSanitizer = (config: SanitizationConfig, options: SanitizerOptions = {}): CompiledSanitizer => {
+  const policy = compilePolicy(config, options);
+
+  return {
+    sanitize: (data, callOptions = {}) => new Sanitizer(policy, callOptions.logger).sanitize(data),
+    sanitizeString: (input, callOptions = {}) => new Sanitizer(policy, callOptions.logger).sanitize(input),
+    sanitizeAsync: (data, callOptions = {}) => new Sanitizer(policy, callOptions.logger).sanitizeAsync(data, callOptions),
+    sanitizeStream: (records, callOptions = {}) => new Sanitizer(policy, callOptions.logger).sanitizeStream(records, callOptions),
+  };
+};
+
 export const sanitizeRequestData = <T extends Record<string, any>>(
   data: T,
-  config: SanitizationConfig
-): SanitizationResult<T> => {
-  const sanitizer = new Sanitizer(config);
-  return sanitizer.sanitize(data);
+  config: SanitizationConfig,
+  options: SanitizeDataOptions = {}
+): SanitizationResult<T> => createSanitizer(config, options).sanitize(data);
+
+/**
+ * Like sanitizeRequestData, but hands the event loop back every `yieldEvery` fields so
+ * large payloads do not block other requests. Rejects with a SanitizationAbortedError
+ * when `signal` aborts or `timeoutMs` passes.
+ */
+export const sanitizeRequestDataAsync = <T extends Record<string, any>>(
+  data: T,
+  config: SanitizationConfig,
+  options: SanitizeDataOptions & AsyncSanitizeOptions = {}
+): Promise<SanitizationResult<T>> => {
+  const { yieldEvery, signal, timeoutMs, workerPool, ...dataOptions } = options;
+  return createSanitizer(config, dataOptions).sanitizeAsync(data, { yieldEvery, signal, timeoutMs, workerPool });
 };
 
 export const sanitizeString = (
   input: string,
-  config: SanitizationConfig
-): SanitizationResult<string> => {
-  const sanitizer = new Sanitizer(config);
-  return sanitizer.sanitize(input);
-};
+  config: SanitizationConfig,
+  options: SanitizeDataOptions = {}
+): SanitizationResult<string> => createSanitizer(config, options).sanitizeString(input);
@@ -0,0 +1,63 @@
+import { TypeHandler } from '../types/sanitization';
+
+// Tags are compared instead of instanceof so values from other realms (vm, jsdom) are recognized
+const tagOf = (value: object): string => Object.prototype.toString.call(value).slice(8, -1);
+
+// URL keeps its state in internal slots and serializes with '<', '>' and quotes percent-encoded
+const PASSTHROUGH_TAGS = ['Date', 'RegExp', 'ArrayBuffer', 'SharedArrayBuffer', 'URL'];
+
+const indexPath = (field: string | undefined, index: number): string =>
+  field ? `${field}[${index}]` : `[${index}]`;
+
+const mapEntryPath = (field: string | undefined, key: unknown, index: number): string =>
+  typeof key === 'string' || typeof key === 'number'
+    ? field ? `${field}.${key}` : String(key)
+    : indexPath(field, index);
+
+// Buffers and typed arrays are ArrayBuffer views
+export const isPassthroughValue = (value: object): boolean =>
+  PASSTHROUGH_TAGS.includes(tagOf(value)) || ArrayBuffer.isView(value);
+
+export const isMap = (value: object): value is Map<unknown, unknown> => tagOf(value) === 'Map';
+
+export const isSet = (value: object): value is Set<unknown> => tagOf(value) === 'Set';
+
+// Object literals and Object.create(null), as opposed to class instances
+export const isPlainObject = (value: object): boolean => {
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || Object.getPrototypeOf(proto) === null;
+};
+
+const BUILTIN_TYPE_HANDLERS: TypeHandler[] = [
+  {
+    name: 'passthrough',
+    test: isPassthroughValue,
+    sanitize: value => value,
+  },
+  {
+    name: 'map',
+    test: isMap,
+    sanitize: (map: Map<unknown, unknown>, { field, sanitize }) =>
+      new Map(Array.from(map, ([key, item], index) => [key, sanitize(item, mapEntryPath(field, key, index))])),
+  },
+  {
+    name: 'set',
+    test: isSet,
+    sanitize: (set: Set<unknown>, { field, sanitize }) =>
+      new Set(Array.from(set, (item, index) => sanitize(item, indexPath(field, index)))),
+  },
+];
+
+const registeredHandlers: TypeHandler[] = [];
+
+export const registerTypeHandler = (handler: TypeHandler): void => {
+  registeredHandlers.push(handler);
+};
+
+export const resetTypeHandlers = (): void => {
+  registeredHandlers.length = 0;
+};
+
+// Per-call handlers win over registered ones, which win over the built-in ones
+export const findTypeHandler = (value: object, handlers: readonly TypeHandler[] = []): TypeHandler | undefined =>
+  [...handlers, ...registeredHandlers, ...BUILTIN_TYPE_HANDLERS].find(handler => handler.test(value));
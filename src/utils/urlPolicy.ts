@@ -0,0 +1,104 @@
+import { UrlContext, UrlPolicy, UrlSanitizationResult } from '../types/sanitization';
+
+export const DEFAULT_ALLOWED_PROTOCOLS = ['http', 'https', 'mailto', 'tel'];
+
+const URL_ATTRIBUTES = ['href', 'src', 'cite', 'action', 'formaction', 'poster', 'background', 'xlink:href'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+  sol: '/',
+  bsol: '\\',
+  period: '.',
+  lpar: '(',
+  rpar: ')',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  lt: '<',
+  gt: '>',
+};
+
+const decodeEntities = (input: string): string =>
+  input.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));?/gi, (entity, dec, hex, name) => {
+    if (dec || hex) {
+      const code = parseInt(dec || hex, dec ? 10 : 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+// Browsers ignore control characters and whitespace when reading the scheme, so `java\tscript:` still runs
+const normalizeUrl = (input: string): string =>
+  decodeEntities(input)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000- \u007F-\u009F]/g, '')
+    .replace(/\\/g, '/');
+
+const cleanUrl = (input: string): string =>
+  // eslint-disable-next-line no-control-regex
+  input.replace(/^[\u0000- ]+|[\u0000- ]+$/g, '').replace(/[\t\n\r]/g, '');
+
+export const matchesHost = (host: string, patterns: string[]): boolean =>
+  patterns.some(pattern => {
+    const candidate = pattern.toLowerCase();
+    return candidate.startsWith('*.')
+      ? host.endsWith(candidate.slice(1))
+      : host === candidate;
+  });
+
+const getHost = (normalized: string): string | null => {
+  try {
+    return new URL(normalized.startsWith('//') ? `https:${normalized}` : normalized).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// Returns null for relative URLs and for absolute URLs without a host, such as mailto:
+export const getUrlHost = (input: string): string | null => {
+  const normalized = normalizeUrl(input);
+  const isAbsolute = /^[a-z][a-z0-9+.-]*:/i.test(normalized) || normalized.startsWith('//');
+  return isAbsolute ? getHost(normalized) || null : null;
+};
+
+const blocked = (reason: string): UrlSanitizationResult => ({ url: null, reason });
+
+export const isUrlAttribute = (attrName: string): boolean => URL_ATTRIBUTES.includes(attrName.toLowerCase());
+
+export const sanitizeUrl = (
+  input: string,
+  policy: UrlPolicy = {},
+  context: UrlContext = 'link'
+): UrlSanitizationResult => {
+  const url = cleanUrl(input);
+  const normalized = normalizeUrl(input);
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1].toLowerCase();
+  const isAbsolute = !!scheme || normalized.startsWith('//');
+
+  if (!isAbsolute) {
+    return policy.allowRelative === false ? blocked('relative URLs are not allowed') : { url };
+  }
+  if (policy.relativeOnly) {
+    return blocked('only relative URLs are allowed');
+  }
+  if (scheme && !(policy.allowedProtocols ?? DEFAULT_ALLOWED_PROTOCOLS).includes(scheme)) {
+    return blocked(`protocol '${scheme}:' is not allowed`);
+  }
+
+  if (context === 'image' && (policy.allowedImageHosts || policy.blockedImageHosts)) {
+    const host = getHost(normalized);
+    if (!host) {
+      return blocked('image URL has no valid host');
+    }
+    if (policy.blockedImageHosts && matchesHost(host, policy.blockedImageHosts)) {
+      return blocked(`image host '${host}' is blocked`);
+    }
+    if (policy.allowedImageHosts && !matchesHost(host, policy.allowedImageHosts)) {
+      return blocked(`image host '${host}' is not allowed`);
+    }
+  }
+
+  return { url };
+};
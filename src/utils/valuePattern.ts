@@ -0,0 +1,18 @@
+import { ValuePattern } from '../types/sanitization';
+
+const anchoredPatterns = new WeakMap<RegExp, RegExp>();
+
+// Patterns must match the whole value, even when they are not anchored
+const anchor = (pattern: RegExp): RegExp => {
+  let anchored = anchoredPatterns.get(pattern);
+  if (!anchored) {
+    anchored = new RegExp(`^(?:${pattern.source})$`, pattern.flags.replace(/[gy]/g, ''));
+    anchoredPatterns.set(pattern, anchored);
+  }
+  return anchored;
+};
+
+export const matchesValuePattern = (value: string, pattern: ValuePattern, ignoreCase = false): boolean => {
+  if (typeof pattern !== 'string') return anchor(pattern).test(value);
+  return ignoreCase ? pattern.toLowerCase() === value.toLowerCase() : pattern === value;
+};
@@ -0,0 +1,126 @@
+import { cpus } from 'os';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import { WorkerPoolOptions } from '../types/sanitization';
+import type { PurifyOutcome, PurifyPolicy } from './purifier';
+import type { PurifyRequest, PurifyResponse } from './purifyWorker';
+import { createLogger } from './logger';
+
+export interface PurifyPool {
+  // Strings with at least this many characters are sent to the pool
+  readonly threshold: number;
+  // Returns undefined when the queue is full, leaving the string to be purified inline
+  purify: (input: string, policy: PurifyPolicy) => Promise<PurifyOutcome> | undefined;
+  close: () => Promise<void>;
+}
+
+interface PurifyJob extends PurifyRequest {
+  resolve: (outcome: PurifyOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  thread: Worker;
+  job?: PurifyJob;
+  timer?: NodeJS.Timeout;
+}
+
+const DEFAULT_THRESHOLD = 10000;
+const DEFAULT_QUEUE_LIMIT = 100;
+const DEFAULT_JOB_TIMEOUT_MS = 30000;
+
+/**
+ * Purifies large strings on worker threads so jsdom does not block the event loop.
+ * Workers are started on first use and only keep the process alive while busy.
+ * A failed job is rejected, and callers fall back to purifying inline. A worker that does not
+ * answer within `jobTimeoutMs` is replaced.
+ */
+export const createPurifyPool = (options: WorkerPoolOptions = {}): PurifyPool => {
+  const size = Math.max(1, options.size ?? cpus().length - 1);
+  const queueLimit = options.queueLimit ?? DEFAULT_QUEUE_LIMIT;
+  const jobTimeoutMs = options.jobTimeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+  // The build emits the worker next to the bundle, with tsup shims providing __dirname in the ESM build
+  const workerScript = options.workerScript ?? join(__dirname, 'purifyWorker.js');
+  const logger = createLogger({ logger: options.logger, level: options.logLevel });
+  const workers: PoolWorker[] = [];
+  const queue: PurifyJob[] = [];
+  let closed = false;
+
+  const removeWorker = (worker: PoolWorker, error: Error) => {
+    const index = workers.indexOf(worker);
+    if (index === -1) return;
+    workers.splice(index, 1);
+    logger.error(`Sanitizer worker failed: ${error.message}`, { event: 'worker-failed' });
+    clearTimeout(worker.timer);
+    worker.job?.reject(error);
+    worker.job = undefined;
+    dispatch();
+  };
+
+  const startWorker = (): PoolWorker => {
+    const worker: PoolWorker = { thread: new Worker(workerScript) };
+    worker.thread.on('message', (response: PurifyResponse) => {
+      const job = worker.job;
+      worker.job = undefined;
+      clearTimeout(worker.timer);
+      worker.thread.unref();
+      if ('outcome' in response) {
+        job?.resolve(response.outcome);
+      } else {
+        job?.reject(new Error(response.error));
+      }
+      dispatch();
+    });
+    worker.thread.on('error', error => removeWorker(worker, error));
+    worker.thread.on('exit', code => removeWorker(worker, new Error(`Worker exited with code ${code}`)));
+    workers.push(worker);
+    return worker;
+  };
+
+  const dispatch = () => {
+    while (queue.length && !closed) {
+      const worker = workers.find(candidate => !candidate.job) ?? (workers.length < size ? startWorker() : undefined);
+      if (!worker) return;
+      const job = queue.shift() as PurifyJob;
+      try {
+        worker.thread.postMessage({ input: job.input, policy: job.policy });
+      } catch (error) {
+        // A policy that cannot be cloned, for instance; the worker itself is fine
+        logger.error(`Could not send a string to a sanitizer worker: ${(error as Error).message}`, { event: 'worker-failed' });
+        job.reject(error as Error);
+        continue;
+      }
+      worker.job = job;
+      worker.thread.ref();
+      worker.timer = setTimeout(() => {
+        removeWorker(worker, new Error(`Worker did not respond within ${jobTimeoutMs}ms`));
+        worker.thread.terminate();
+      }, jobTimeoutMs);
+      worker.timer.unref();
+    }
+  };
+
+  return {
+    threshold: options.threshold ?? DEFAULT_THRESHOLD,
+    purify: (input, policy) => {
+      if (closed || queue.length >= queueLimit) return undefined;
+      const outcome = new Promise<PurifyOutcome>((resolve, reject) => {
+        queue.push({ input, policy, resolve, reject });
+      });
+      dispatch();
+      return outcome;
+    },
+    close: async () => {
+      closed = true;
+      for (const job of queue.splice(0)) {
+        job.reject(new Error('Worker pool closed'));
+      }
+      const stopping = workers.splice(0);
+      await Promise.all(stopping.map(worker => {
+        clearTimeout(worker.timer);
+        worker.job?.reject(new Error('Worker pool closed'));
+        return worker.thread.terminate();
+      }));
+    },
+  };
+};